@@ -0,0 +1,213 @@
+import { Frame } from './frame';
+import { GeneratorReturn } from './generator';
+import { Interpreter } from './interpreter';
+import { Evaluation, Suspension, SuspensionType } from './suspension';
+
+// Drives the body of an async function. The body runs synchronously until its first `await`, every
+// await suspends the evaluation until the awaited value settles and resumes it in its own frame.
+export function runAsyncFunction(interpreter: Interpreter, evaluation: Evaluation, frame: Frame): Promise<any> {
+  evaluation = interpreter.runCalls(evaluation);
+  return new Promise((resolve, reject) => {
+    const step = (resume: () => IteratorResult<Suspension>) => {
+      let result;
+      try {
+        result = interpreter.withFrame(frame, resume);
+      } catch (e) {
+        reject(e);
+        return;
+      }
+      if (result.done) {
+        resolve(result.value);
+        return;
+      }
+      const suspension = result.value;
+      if (suspension.type === SuspensionType.PAUSE) {
+        interpreter.debugger.suspend(suspension.value, () => step(() => evaluation.next()));
+        return;
+      }
+      if (suspension.type !== SuspensionType.AWAIT) {
+        reject(new TypeError(`Can not suspend an async function with ${suspension.type}`));
+        return;
+      }
+      Promise.resolve(suspension.value).then(
+        value => interpreter.debugger.whenRunning(() => step(() => evaluation.next(value))),
+        error => interpreter.debugger.whenRunning(() => step(() => evaluation.throw(error))),
+      );
+    };
+    step(() => evaluation.next());
+  });
+}
+
+enum AsyncGeneratorState {
+  SUSPENDED_START = 'suspendedStart',
+  SUSPENDED_YIELD = 'suspendedYield',
+  EXECUTING = 'executing',
+  COMPLETED = 'completed',
+}
+
+type ResumptionType = 'next' | 'throw' | 'return';
+
+interface AsyncGeneratorRequest {
+  type: ResumptionType;
+  value: any;
+  resolve: (result: IteratorResult<any>) => void;
+  reject: (error: any) => void;
+}
+
+const asyncGenerators = new WeakMap<object, InterpreterAsyncGenerator>();
+
+function enqueue(obj: any, type: ResumptionType, value: any): Promise<IteratorResult<any>> {
+  const generator = asyncGenerators.get(obj);
+  if (!generator) {
+    return Promise.reject(new TypeError(`${type} method called on incompatible receiver ${String(obj)}`));
+  }
+  return generator.enqueue(type, value);
+}
+
+const AsyncIteratorPrototype = Object.getPrototypeOf(
+  Object.getPrototypeOf(Object.getPrototypeOf((async function*() {})())),
+);
+
+// Creates a stand-in for %AsyncGeneratorPrototype%, whose native methods only work on host async generator objects.
+// Like the one of generators, every loaded script gets its own.
+export function createAsyncGeneratorPrototype() {
+  const methods = {
+    next(this: object, value?: any) {
+      return enqueue(this, 'next', value);
+    },
+    return(this: object, value?: any) {
+      return enqueue(this, 'return', value);
+    },
+    throw(this: object, exception?: any) {
+      return enqueue(this, 'throw', exception);
+    },
+  };
+  return Object.create(AsyncIteratorPrototype, {
+    next: { value: methods.next, writable: true, configurable: true },
+    return: { value: methods.return, writable: true, configurable: true },
+    throw: { value: methods.throw, writable: true, configurable: true },
+    [Symbol.toStringTag]: { value: 'AsyncGenerator', configurable: true },
+  });
+}
+
+// Async generators queue their next/throw/return requests and serve them one at a time, the body
+// can suspend on `await` while serving a request and settles the request at the next `yield`.
+export class InterpreterAsyncGenerator {
+  state = AsyncGeneratorState.SUSPENDED_START;
+  queue: AsyncGeneratorRequest[] = [];
+  interpreter: Interpreter;
+  evaluation: Evaluation;
+  frame: Frame;
+
+  constructor(interpreter: Interpreter, evaluation: Evaluation, frame: Frame) {
+    this.interpreter = interpreter;
+    this.evaluation = interpreter.runCalls(evaluation);
+    this.frame = frame;
+  }
+
+  enqueue(type: ResumptionType, value: any): Promise<IteratorResult<any>> {
+    return this.interpreter.adopt(
+      new Promise((resolve, reject) => {
+        this.queue.push({ type, value, resolve, reject });
+        if (this.state !== AsyncGeneratorState.EXECUTING) this.drain();
+      }),
+    );
+  }
+
+  drain() {
+    const request = this.queue[0];
+    if (!request) return;
+    if (this.state === AsyncGeneratorState.SUSPENDED_START && request.type !== 'next') {
+      this.state = AsyncGeneratorState.COMPLETED;
+    }
+    if (this.state === AsyncGeneratorState.COMPLETED) {
+      if (request.type === 'throw') this.settle(false, request.value);
+      else if (request.type === 'return') this.settle(true, this.createResult(request.value, true));
+      else this.settle(true, this.createResult(undefined, true));
+      return;
+    }
+    this.state = AsyncGeneratorState.EXECUTING;
+    this.step(() => {
+      if (request.type === 'next') return this.evaluation.next(request.value);
+      else if (request.type === 'throw') return this.evaluation.throw(request.value);
+      else return this.evaluation.throw(new GeneratorReturn(request.value));
+    });
+  }
+
+  step(resume: () => IteratorResult<Suspension>) {
+    let result;
+    try {
+      result = this.interpreter.withFrame(this.frame, resume);
+    } catch (e) {
+      this.state = AsyncGeneratorState.COMPLETED;
+      if (e instanceof GeneratorReturn) this.settle(true, this.createResult(e.value, true));
+      else this.settle(false, e);
+      return;
+    }
+    if (result.done) {
+      this.state = AsyncGeneratorState.COMPLETED;
+      this.settle(true, this.createResult(result.value, true));
+      return;
+    }
+    const suspension = result.value;
+    const debug = this.interpreter.debugger;
+    if (suspension.type === SuspensionType.PAUSE) {
+      debug.suspend(suspension.value, () => this.step(() => this.evaluation.next()));
+      return;
+    }
+    // yielded values are awaited before they are handed out
+    Promise.resolve(suspension.value).then(
+      value =>
+        debug.whenRunning(() => {
+          if (suspension.type === SuspensionType.AWAIT) {
+            this.step(() => this.evaluation.next(value));
+          } else {
+            this.state = AsyncGeneratorState.SUSPENDED_YIELD;
+            this.settle(true, this.createResult(value, false));
+          }
+        }),
+      error => debug.whenRunning(() => this.step(() => this.evaluation.throw(error))),
+    );
+  }
+
+  // The results are objects of interpreted code, with the realm's prototypes in isolated mode.
+  private createResult(value: any, done: boolean): IteratorResult<any> {
+    return this.interpreter.adopt({ value, done });
+  }
+
+  // Settles the oldest request and moves on to the next one.
+  settle(fulfilled: boolean, value: any) {
+    const request = this.queue.shift()!;
+    if (fulfilled) request.resolve(value);
+    else request.reject(value);
+    this.drain();
+  }
+}
+
+export function createAsyncGenerator(interpreter: Interpreter, prototype: any, evaluation: Evaluation, frame: Frame) {
+  const generator = Object.create(
+    typeof prototype === 'object' && prototype !== null ? prototype : interpreter.asyncGeneratorPrototype,
+  );
+  asyncGenerators.set(generator, new InterpreterAsyncGenerator(interpreter, evaluation, frame));
+  return generator;
+}
+
+// Gets the async iterator used by `for await`, falling back to the sync iterator of the
+// object with its values awaited like CreateAsyncFromSyncIterator does.
+export function getAsyncIterator(obj: any) {
+  const method = obj == null ? undefined : obj[Symbol.asyncIterator];
+  if (method != null) return method.call(obj);
+  const syncMethod = obj == null ? undefined : obj[Symbol.iterator];
+  if (typeof syncMethod !== 'function') throw new TypeError(`${String(obj)} is not async iterable`);
+  const iterator = syncMethod.call(obj);
+  return {
+    next(value?: any) {
+      const result = iterator.next(value);
+      return Promise.resolve(result.value).then(value => ({ value, done: result.done }));
+    },
+    return(value?: any) {
+      if (typeof iterator.return !== 'function') return Promise.resolve({ value, done: true });
+      return Promise.resolve(iterator.return(value));
+    },
+  };
+}
@@ -0,0 +1,460 @@
+import { URL } from 'url';
+import { VirtualClock } from './clock';
+import { BasicContext, createBrowserContext } from './context';
+import { DynamicSourceKind, InterpreterDynamicSourceEvent, InterpreterEventName } from './events';
+import { Interpreter } from './interpreter';
+
+export enum BrowserLogType {
+  GET = 'get',
+  SET = 'set',
+  CALL = 'call',
+  // source passed to `eval`, `Function` or string timers
+  EVAL = 'eval',
+  // script elements inserted into the document and `<script>` tags written with `document.write`
+  SCRIPT = 'script',
+}
+
+export interface BrowserLogEntry {
+  type: BrowserLogType;
+  // where the access happened, e.g. `document.cookie` or `document.createElement`
+  path: string;
+  // the value read or written, the result of a call, or the source of a script or eval
+  value?: any;
+  args?: any[];
+}
+
+export interface BrowserEnvironmentOptions {
+  url?: string;
+  referrer?: string;
+  userAgent?: string;
+  // the initial `document.cookie`
+  cookie?: string;
+  localStorage?: Record<string, string>;
+  sessionStorage?: Record<string, string>;
+  // the start time of the virtual clock in milliseconds since the epoch
+  now?: number;
+  // additional globals, or replacements of the emulated ones
+  globals?: BasicContext;
+}
+
+const defaultUserAgent =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+function isObject(value: any): value is object {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function';
+}
+
+class FakeStorage {
+  private items = new Map<string, string>();
+
+  constructor(items: Record<string, string> = {}) {
+    for (const key of Object.keys(items)) this.items.set(key, String(items[key]));
+  }
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    const keys = [...this.items.keys()];
+    return index < keys.length ? keys[index] : null;
+  }
+
+  getItem(key: string) {
+    const value = this.items.get(String(key));
+    return value === undefined ? null : value;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(String(key), String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(String(key));
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+class FakeElement {
+  tagName: string;
+  ownerDocument: FakeDocument;
+  parentNode: FakeElement | null = null;
+  childNodes: FakeElement[] = [];
+  attributes: Record<string, string> = {};
+  style: Record<string, string> = {};
+  id = '';
+  className = '';
+  src = '';
+  href = '';
+  text = '';
+  textContent = '';
+  innerHTML = '';
+
+  constructor(tagName: string, ownerDocument: FakeDocument) {
+    this.tagName = String(tagName).toUpperCase();
+    this.ownerDocument = ownerDocument;
+  }
+
+  get children() {
+    return this.childNodes;
+  }
+
+  get firstChild() {
+    return this.childNodes.length > 0 ? this.childNodes[0] : null;
+  }
+
+  setAttribute(name: string, value: string) {
+    name = String(name).toLowerCase();
+    this.attributes[name] = String(value);
+    if (name === 'id' || name === 'src' || name === 'href') this[name] = String(value);
+    else if (name === 'class') this.className = String(value);
+  }
+
+  getAttribute(name: string) {
+    name = String(name).toLowerCase();
+    return name in this.attributes ? this.attributes[name] : null;
+  }
+
+  removeAttribute(name: string) {
+    delete this.attributes[String(name).toLowerCase()];
+  }
+
+  appendChild(child: FakeElement) {
+    return this.insertBefore(child, null);
+  }
+
+  insertBefore(child: FakeElement, reference: FakeElement | null) {
+    if (child.parentNode) child.parentNode.removeChild(child);
+    const index = reference ? this.childNodes.indexOf(reference) : -1;
+    if (index === -1) this.childNodes.push(child);
+    else this.childNodes.splice(index, 0, child);
+    child.parentNode = this;
+    this.ownerDocument.connected(child);
+    return child;
+  }
+
+  append(...children: FakeElement[]) {
+    children.forEach(child => this.appendChild(child));
+  }
+
+  prepend(...children: FakeElement[]) {
+    children.reverse().forEach(child => this.insertBefore(child, this.firstChild));
+  }
+
+  removeChild(child: FakeElement) {
+    const index = this.childNodes.indexOf(child);
+    if (index !== -1) this.childNodes.splice(index, 1);
+    child.parentNode = null;
+    return child;
+  }
+
+  remove() {
+    if (this.parentNode) this.parentNode.removeChild(this);
+  }
+
+  getElementsByTagName(tagName: string): FakeElement[] {
+    tagName = String(tagName).toUpperCase();
+    const found: FakeElement[] = [];
+    for (const child of this.childNodes) {
+      if (tagName === '*' || child.tagName === tagName) found.push(child);
+      found.push(...child.getElementsByTagName(tagName));
+    }
+    return found;
+  }
+
+  querySelector() {
+    return null;
+  }
+
+  querySelectorAll() {
+    return [];
+  }
+
+  addEventListener() {}
+
+  removeEventListener() {}
+}
+
+class FakeDocument {
+  location: any;
+  referrer: string;
+  readyState = 'complete';
+  title = '';
+  currentScript = null;
+  documentElement: FakeElement;
+  head: FakeElement;
+  body: FakeElement;
+  private cookies = new Map<string, string>();
+  private clock: VirtualClock;
+  private onScript: (source: string) => void;
+
+  constructor(
+    location: any,
+    referrer: string,
+    cookie: string,
+    clock: VirtualClock,
+    onScript: (source: string) => void,
+  ) {
+    this.location = location;
+    this.referrer = referrer;
+    this.clock = clock;
+    this.onScript = onScript;
+    cookie
+      .split(';')
+      .filter(pair => pair.trim())
+      .forEach(pair => (this.cookie = pair));
+    this.documentElement = new FakeElement('html', this);
+    this.head = this.documentElement.appendChild(new FakeElement('head', this));
+    this.body = this.documentElement.appendChild(new FakeElement('body', this));
+  }
+
+  get URL() {
+    return this.location.href;
+  }
+
+  get domain() {
+    return this.location.hostname;
+  }
+
+  get cookie() {
+    return [...this.cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+  }
+
+  // Keeps the name and value of a written cookie, its attributes only matter to remove it.
+  set cookie(cookie: string) {
+    const [pair, ...attributes] = String(cookie).split(';');
+    const separator = pair.indexOf('=');
+    const name = (separator === -1 ? '' : pair.slice(0, separator)).trim();
+    const value = (separator === -1 ? pair : pair.slice(separator + 1)).trim();
+    const expired = attributes.some(attribute => {
+      const [key, setting = ''] = attribute.split('=').map(part => part.trim());
+      if (key.toLowerCase() === 'max-age') return Number(setting) <= 0;
+      if (key.toLowerCase() === 'expires') return Date.parse(setting) <= this.clock.now;
+      return false;
+    });
+    if (expired) this.cookies.delete(name);
+    else this.cookies.set(name, value);
+  }
+
+  createElement(tagName: string) {
+    return new FakeElement(tagName, this);
+  }
+
+  createTextNode(text: string) {
+    const node = new FakeElement('#text', this);
+    node.textContent = String(text);
+    return node;
+  }
+
+  getElementById(id: string) {
+    return this.documentElement.getElementsByTagName('*').find(element => element.id === String(id)) || null;
+  }
+
+  getElementsByTagName(tagName: string) {
+    return this.documentElement.getElementsByTagName(tagName);
+  }
+
+  querySelector() {
+    return null;
+  }
+
+  querySelectorAll() {
+    return [];
+  }
+
+  write(...markup: string[]) {
+    const html = markup.join('');
+    if (/<script/i.test(html)) this.onScript(html);
+  }
+
+  writeln(...markup: string[]) {
+    this.write(...markup, '\n');
+  }
+
+  addEventListener() {}
+
+  removeEventListener() {}
+
+  // Called when an element is inserted somewhere, scripts are what a page would load or run at that point.
+  connected(element: FakeElement) {
+    if (element.tagName === 'SCRIPT') this.onScript(element.src || element.text || element.textContent);
+  }
+}
+
+function createLocation(url: string) {
+  const parsed = new URL(url);
+  return {
+    href: parsed.href,
+    origin: parsed.origin,
+    protocol: parsed.protocol,
+    host: parsed.host,
+    hostname: parsed.hostname,
+    port: parsed.port,
+    pathname: parsed.pathname,
+    search: parsed.search,
+    hash: parsed.hash,
+    assign() {},
+    replace() {},
+    reload() {},
+    toString() {
+      return this.href;
+    },
+  };
+}
+
+// A fake browser global to pass to `Interpreter.load`. It records what interpreted code does with the browser
+// objects, e.g. `document`, `navigator` and `localStorage`, in `log`, and runs timers on a virtual clock.
+export class BrowserEnvironment {
+  window: BasicContext;
+  document: FakeDocument;
+  clock: VirtualClock;
+  log: BrowserLogEntry[] = [];
+  // recording proxies by the values they record, and the other way around
+  private recorders = new WeakMap<object, any>();
+  private recorded = new WeakMap<object, object>();
+  // the `eval` and `Function` of the attached interpreters, which have to stay recognizable to them
+  private dynamicCode = new WeakSet<Function>();
+
+  constructor(options: BrowserEnvironmentOptions = {}) {
+    const url = options.url || 'https://example.com/';
+    const clock = (this.clock = new VirtualClock(options.now === undefined ? Date.now() : options.now));
+    const start = clock.now;
+    const location = createLocation(url);
+    this.document = new FakeDocument(location, options.referrer || '', options.cookie || '', clock, source =>
+      this.record(BrowserLogType.SCRIPT, 'document', source),
+    );
+
+    const window = (this.window = createBrowserContext());
+    const browserObjects: BasicContext = {
+      document: this.document,
+      location,
+      navigator: {
+        userAgent: options.userAgent || defaultUserAgent,
+        appName: 'Netscape',
+        appVersion: (options.userAgent || defaultUserAgent).replace(/^Mozilla\//, ''),
+        platform: 'Win32',
+        language: 'en-US',
+        languages: ['en-US', 'en'],
+        cookieEnabled: true,
+        onLine: true,
+        webdriver: false,
+        hardwareConcurrency: 8,
+        plugins: [],
+        mimeTypes: [],
+      },
+      screen: { width: 1920, height: 1080, availWidth: 1920, availHeight: 1040, colorDepth: 24, pixelDepth: 24 },
+      history: { length: 1, state: null, back() {}, forward() {}, go() {}, pushState() {}, replaceState() {} },
+      localStorage: new FakeStorage(options.localStorage),
+      sessionStorage: new FakeStorage(options.sessionStorage),
+      performance: { now: () => clock.now - start, timeOrigin: start },
+      setTimeout: (handler: any, delay?: number, ...args: any[]) =>
+        clock.setTimeout(this.timerCallback(handler, 'setTimeout'), delay, ...args),
+      setInterval: (handler: any, delay?: number, ...args: any[]) =>
+        clock.setInterval(this.timerCallback(handler, 'setInterval'), delay, ...args),
+      clearTimeout: (id: number) => clock.clearTimer(id),
+      clearInterval: (id: number) => clock.clearTimer(id),
+      requestAnimationFrame: (callback: Function) => clock.setTimeout(() => callback(clock.now - start), 16),
+      cancelAnimationFrame: (id: number) => clock.clearTimer(id),
+      alert() {},
+      confirm: () => false,
+      prompt: () => null,
+      open: () => null,
+      postMessage() {},
+      addEventListener() {},
+      removeEventListener() {},
+      ...options.globals,
+    };
+    window.Date = this.createDate();
+    for (const name of Object.keys(browserObjects)) window[name] = this.recorder(browserObjects[name], name);
+    window.window = window.self = window.top = window.parent = window.frames = window.globalThis = this.recorder(
+      window,
+      'window',
+    );
+  }
+
+  // Records the source that interpreted code passes to `eval` and `Function` of the interpreter, which
+  // interprets it. Call it before running the script.
+  attach(interpreter: Interpreter) {
+    this.dynamicCode.add(interpreter.evalFunction);
+    this.dynamicCode.add(interpreter.functionConstructor);
+    interpreter.on(InterpreterEventName.DYNAMIC_SOURCE, (event: InterpreterDynamicSourceEvent) => {
+      const path = event.kind === DynamicSourceKind.FUNCTION ? 'Function' : 'eval';
+      this.record(BrowserLogType.EVAL, path, event.source);
+    });
+    return this;
+  }
+
+  private record(type: BrowserLogType, path: string, value?: any, args?: any[]) {
+    const entry: BrowserLogEntry = { type, path, value };
+    if (args) entry.args = args;
+    this.log.push(entry);
+    return entry;
+  }
+
+  private timerCallback(handler: any, path: string) {
+    if (typeof handler === 'function') return handler;
+    // string timers would be evaluated, we only record them
+    this.record(BrowserLogType.EVAL, path, String(handler));
+    return () => {};
+  }
+
+  private createDate() {
+    const clock = this.clock;
+    const HostDate = Date;
+    // `new Date()` and `Date.now()` tell the virtual time
+    return class Date extends HostDate {
+      constructor(...args: any[]) {
+        if (args.length === 0) super(clock.now);
+        else super(...(args as []));
+      }
+
+      static now() {
+        return clock.now;
+      }
+    };
+  }
+
+  // Wraps a value in a proxy that records the property accesses and calls on it and on the values reached
+  // through it. Each value has one recording proxy, so its path is where it was reached first.
+  private recorder(value: any, path: string): any {
+    // the interpreter recognizes `eval` and `Function` to interpret the source passed to them
+    if (!isObject(value) || this.recorded.has(value) || value === eval || value === Function) return value;
+    if (typeof value === 'function' && this.dynamicCode.has(value)) return value;
+    const existing = this.recorders.get(value);
+    if (existing) return existing;
+    const environment = this;
+    const unwrap = (arg: any) => (isObject(arg) && this.recorded.has(arg) ? this.recorded.get(arg) : arg);
+    const proxy = new Proxy<any>(value, {
+      get(target, key) {
+        const result = Reflect.get(target, key);
+        if (typeof key !== 'string') return result;
+        const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+        // proxies have to report non-configurable, read-only properties as they are
+        if (descriptor && !descriptor.configurable && !descriptor.writable && !descriptor.get) return result;
+        environment.record(BrowserLogType.GET, `${path}.${key}`, result);
+        return environment.recorder(result, `${path}.${key}`);
+      },
+      set(target, key, value) {
+        if (typeof key === 'string') environment.record(BrowserLogType.SET, `${path}.${key}`, value);
+        return Reflect.set(target, key, unwrap(value));
+      },
+      // calls are logged before they run so that what they do is logged after them
+      apply(target, thisArg, args) {
+        const entry = environment.record(BrowserLogType.CALL, path, undefined, args);
+        entry.value = Reflect.apply(target, unwrap(thisArg), args.map(unwrap));
+        return environment.recorder(entry.value, `${path}()`);
+      },
+      construct(target, args) {
+        const entry = environment.record(BrowserLogType.CALL, `new ${path}`, undefined, args);
+        entry.value = Reflect.construct(target, args.map(unwrap));
+        return environment.recorder(entry.value, `new ${path}()`);
+      },
+    });
+    this.recorders.set(value, proxy);
+    this.recorded.set(proxy, value);
+    return proxy;
+  }
+}
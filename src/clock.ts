@@ -0,0 +1,84 @@
+interface Timer {
+  id: number;
+  callback: Function;
+  args: any[];
+  time: number;
+  // the period of an interval, null for a timeout
+  interval: number | null;
+}
+
+// A clock whose time only moves when it is advanced. Timers run synchronously from `advance()` and `runAll()`, in
+// the order they are due and then in the order they were scheduled.
+export class VirtualClock {
+  // milliseconds since the epoch
+  now: number;
+  private timers = new Map<number, Timer>();
+  private nextId = 1;
+
+  constructor(now = 0) {
+    this.now = now;
+  }
+
+  get pending() {
+    return this.timers.size;
+  }
+
+  setTimeout(callback: Function, delay?: number, ...args: any[]) {
+    return this.schedule(callback, delay, args, false);
+  }
+
+  setInterval(callback: Function, delay?: number, ...args: any[]) {
+    return this.schedule(callback, delay, args, true);
+  }
+
+  clearTimer(id: number) {
+    this.timers.delete(id);
+  }
+
+  // Moves the time forward, running the timers that become due on the way. Returns the number of timers run.
+  advance(milliseconds: number) {
+    const target = this.now + Math.max(0, Number(milliseconds) || 0);
+    let count = 0;
+    for (let timer = this.nextTimer(); timer && timer.time <= target; timer = this.nextTimer()) {
+      this.runTimer(timer);
+      count++;
+    }
+    this.now = target;
+    return count;
+  }
+
+  // Runs timers until none are left, moving the time to each of them. Intervals would keep this going forever,
+  // so it stops after `limit` timers. Returns the number of timers run.
+  runAll(limit = 1000) {
+    let count = 0;
+    for (let timer = this.nextTimer(); timer && count < limit; timer = this.nextTimer()) {
+      this.runTimer(timer);
+      count++;
+    }
+    return count;
+  }
+
+  private schedule(callback: Function, delay: number | undefined, args: any[], repeat: boolean) {
+    const id = this.nextId++;
+    const milliseconds = Math.max(0, Number(delay) || 0);
+    // an interval of 0 would never let the time move on
+    const interval = repeat ? Math.max(1, milliseconds) : null;
+    this.timers.set(id, { id, callback, args, time: this.now + milliseconds, interval });
+    return id;
+  }
+
+  private nextTimer() {
+    let next: Timer | undefined;
+    for (const timer of this.timers.values()) {
+      if (!next || timer.time < next.time) next = timer;
+    }
+    return next;
+  }
+
+  private runTimer(timer: Timer) {
+    this.now = Math.max(this.now, timer.time);
+    if (timer.interval === null) this.timers.delete(timer.id);
+    else timer.time += timer.interval;
+    timer.callback(...timer.args);
+  }
+}
@@ -0,0 +1,25 @@
+export enum CompletionType {
+  NORMAL = 'normal',
+  BREAK = 'break',
+  CONTINUE = 'continue',
+  RETURN = 'return',
+}
+
+// A completion record describes how the last statement finished. Abrupt completions (break, continue
+// and return) propagate up through the node handlers until a loop, label, switch or function consumes them.
+export class Completion {
+  type: CompletionType;
+  value: any;
+  // the label of a labeled break or continue, null when unlabeled
+  target: string | null;
+
+  constructor(type: CompletionType = CompletionType.NORMAL, value?: any, target: string | null = null) {
+    this.type = type;
+    this.value = value;
+    this.target = target;
+  }
+
+  isAbrupt() {
+    return this.type !== CompletionType.NORMAL;
+  }
+}
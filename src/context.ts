@@ -1 +1,88 @@
 export type BasicContext = Record<string, any>;
+
+// The host's global object, to look up built-ins by name.
+export const hostGlobal: BasicContext = global;
+
+// The standard built-ins. The interpreter replaces `eval` and `Function` in the context it loads with versions
+// that interpret the source passed to them instead of running it on the host.
+export const standardGlobals = [
+  'Array',
+  'ArrayBuffer',
+  'BigInt',
+  'BigInt64Array',
+  'BigUint64Array',
+  'Boolean',
+  'DataView',
+  'Date',
+  'Error',
+  'EvalError',
+  'Float32Array',
+  'Float64Array',
+  'Function',
+  'Infinity',
+  'Int8Array',
+  'Int16Array',
+  'Int32Array',
+  'JSON',
+  'Map',
+  'Math',
+  'NaN',
+  'Number',
+  'Object',
+  'Promise',
+  'Proxy',
+  'RangeError',
+  'ReferenceError',
+  'Reflect',
+  'RegExp',
+  'Set',
+  'String',
+  'Symbol',
+  'SyntaxError',
+  'TypeError',
+  'URIError',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Uint16Array',
+  'Uint32Array',
+  'WeakMap',
+  'WeakSet',
+  'decodeURI',
+  'decodeURIComponent',
+  'encodeURI',
+  'encodeURIComponent',
+  'escape',
+  'eval',
+  'isFinite',
+  'isNaN',
+  'parseFloat',
+  'parseInt',
+  'undefined',
+  'unescape',
+];
+
+// The browser APIs that node provides as well.
+const browserGlobals = [
+  'atob',
+  'btoa',
+  'clearInterval',
+  'clearTimeout',
+  'console',
+  'queueMicrotask',
+  'setInterval',
+  'setTimeout',
+  'TextDecoder',
+  'TextEncoder',
+  'URL',
+  'URLSearchParams',
+];
+
+// Creates a global context with browser-like globals that refers to itself as `window`, `self` and `globalThis`.
+export function createBrowserContext(): BasicContext {
+  const context: BasicContext = {};
+  for (const name of [...standardGlobals, ...browserGlobals]) {
+    if (name in hostGlobal) context[name] = hostGlobal[name];
+  }
+  context.window = context.self = context.globalThis = context;
+  return context;
+}
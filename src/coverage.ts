@@ -0,0 +1,175 @@
+import { Node, Script } from 'shift-ast';
+import { SourceSpan } from 'shift-parser';
+import { forEachNode } from './util';
+
+// 1-based lines and 0-based columns, like shift-parser's locations.
+export interface CoveragePosition {
+  line: number;
+  column: number;
+}
+
+export interface CoverageRange {
+  start: CoveragePosition;
+  end: CoveragePosition;
+}
+
+// The coverage of a file in the format of Istanbul's coverage-final.json.
+export interface FileCoverage {
+  path: string;
+  statementMap: { [id: string]: CoverageRange };
+  fnMap: { [id: string]: { name: string; decl: CoverageRange; loc: CoverageRange; line: number } };
+  branchMap: { [id: string]: { type: string; loc: CoverageRange; locations: CoverageRange[]; line: number } };
+  s: { [id: string]: number };
+  f: { [id: string]: number };
+  b: { [id: string]: number[] };
+}
+
+function toRange(location: SourceSpan): CoverageRange {
+  return {
+    start: { line: location.start.line, column: location.start.column },
+    end: { line: location.end.line, column: location.end.column },
+  };
+}
+
+const loopTypes: { [type: string]: string } = {
+  DoWhileStatement: 'do-while',
+  ForAwaitStatement: 'for-await',
+  ForInStatement: 'for-in',
+  ForOfStatement: 'for-of',
+  ForStatement: 'for',
+  WhileStatement: 'while',
+};
+
+// Counts how often each node was evaluated when assigned to `interpreter.coverage`. The counts of the nodes of a
+// script are mapped to its source with the locations from shift-parser's parseScriptWithLocation.
+export class Coverage {
+  counts = new Map<Node, number>();
+
+  record(node: Node) {
+    this.counts.set(node, (this.counts.get(node) || 0) + 1);
+  }
+
+  clear() {
+    this.counts.clear();
+  }
+
+  private count(node: Node | null) {
+    return (node && this.counts.get(node)) || 0;
+  }
+
+  // The statements, functions and branches of the script with their counts, keyed by `path` like the
+  // coverage-final.json of Istanbul (and nyc, jest, etc). Nodes without a location are left out.
+  toIstanbul(path: string, script: Script, locations: WeakMap<Node, SourceSpan>): { [path: string]: FileCoverage } {
+    return { [path]: this.collect(path, script, locations).coverage };
+  }
+
+  private collect(path: string, script: Script, locations: WeakMap<Node, SourceSpan>) {
+    const coverage: FileCoverage = { path, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} };
+    // whether each branch was evaluated, its arms can all be 0 when it was, e.g. a loop that never iterated
+    const reached: boolean[] = [];
+    let statements = 0;
+    let functions = 0;
+    let branches = 0;
+    const addBranch = (node: Node, type: string, arms: (Node | null)[], counts: number[]) => {
+      const location = locations.get(node)!;
+      const id = branches++;
+      coverage.branchMap[id] = {
+        type,
+        loc: toRange(location),
+        // an arm that isn't in the source, like a missing else, has the location of the whole branch
+        locations: arms.map(arm => toRange((arm && locations.get(arm)) || location)),
+        line: location.start.line,
+      };
+      coverage.b[id] = counts;
+      reached[id] = this.count(node) > 0;
+    };
+    forEachNode(script, node => {
+      const location = locations.get(node);
+      if (!location) return;
+      switch (node.type) {
+        case 'FunctionDeclaration':
+        case 'FunctionExpression':
+        case 'ArrowExpression':
+        case 'Method':
+        case 'Getter':
+        case 'Setter': {
+          const name =
+            'name' in node && node.name && node.name.type !== 'ComputedPropertyName'
+              ? String(node.name.type === 'BindingIdentifier' ? node.name.name : node.name.value)
+              : `(anonymous_${functions})`;
+          const decl = 'name' in node && node.name && locations.get(node.name);
+          const id = functions++;
+          coverage.fnMap[id] = {
+            name,
+            decl: toRange(decl || location),
+            loc: toRange(location),
+            line: location.start.line,
+          };
+          coverage.f[id] = this.count(node.body);
+          break;
+        }
+        case 'IfStatement': {
+          const consequent = this.count(node.consequent);
+          const alternate = node.alternate ? this.count(node.alternate) : this.count(node) - consequent;
+          addBranch(node, 'if', [node.consequent, node.alternate], [consequent, alternate]);
+          break;
+        }
+        case 'ConditionalExpression':
+          addBranch(
+            node,
+            'cond-expr',
+            [node.consequent, node.alternate],
+            [this.count(node.consequent), this.count(node.alternate)],
+          );
+          break;
+        case 'BinaryExpression':
+          if (node.operator === '&&' || node.operator === '||') {
+            addBranch(node, 'binary-expr', [node.left, node.right], [this.count(node.left), this.count(node.right)]);
+          }
+          break;
+      }
+      if (node.type in loopTypes && 'body' in node) {
+        addBranch(node, loopTypes[node.type], [node.body], [this.count(node.body)]);
+      }
+      // function declarations are counted as functions and blocks by their statements
+      if ((/Statement$/.test(node.type) && node.type !== 'BlockStatement') || node.type === 'ClassDeclaration') {
+        const id = statements++;
+        coverage.statementMap[id] = toRange(location);
+        coverage.s[id] = this.count(node);
+      }
+    });
+    return { coverage, reached };
+  }
+
+  // The same coverage in the lcov tracefile format that genhtml, Codecov, etc read.
+  toLcov(path: string, script: Script, locations: WeakMap<Node, SourceSpan>) {
+    const { coverage, reached } = this.collect(path, script, locations);
+    const lines = ['TN:', `SF:${path}`];
+    const fnIds = Object.keys(coverage.fnMap);
+    for (const id of fnIds) lines.push(`FN:${coverage.fnMap[id].line},${coverage.fnMap[id].name}`);
+    for (const id of fnIds) lines.push(`FNDA:${coverage.f[id]},${coverage.fnMap[id].name}`);
+    lines.push(`FNF:${fnIds.length}`, `FNH:${fnIds.filter(id => coverage.f[id] > 0).length}`);
+    let found = 0;
+    let hit = 0;
+    for (const id of Object.keys(coverage.branchMap)) {
+      // "-" marks arms of branches that were never reached
+      coverage.b[id].forEach((count, arm) => {
+        lines.push(`BRDA:${coverage.branchMap[id].line},${id},${arm},${reached[Number(id)] ? count : '-'}`);
+        found++;
+        if (count > 0) hit++;
+      });
+    }
+    lines.push(`BRF:${found}`, `BRH:${hit}`);
+    // the count of a line is the highest count of the statements starting on it
+    const lineCounts = new Map<number, number>();
+    for (const id of Object.keys(coverage.statementMap)) {
+      const line = coverage.statementMap[id].start.line;
+      lineCounts.set(line, Math.max(lineCounts.get(line) || 0, coverage.s[id]));
+    }
+    const sortedLines = [...lineCounts.keys()].sort((a, b) => a - b);
+    for (const line of sortedLines) lines.push(`DA:${line},${lineCounts.get(line)}`);
+    lines.push(`LF:${sortedLines.length}`, `LH:${sortedLines.filter(line => lineCounts.get(line)! > 0).length}`);
+    lines.push('end_of_record');
+    return `${lines.join('\n')}\n`;
+  }
+}
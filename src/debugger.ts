@@ -0,0 +1,185 @@
+import { Node } from 'shift-ast';
+import { Environment } from './environment';
+import { InterpreterRuntimeError } from './errors';
+import { Frame } from './frame';
+import { Instruction, InstructionBufferEventName } from './instruction-buffer';
+import { Interpreter } from './interpreter';
+import { isStatement } from './util';
+
+export enum StepMode {
+  INTO = 'into',
+  OVER = 'over',
+  OUT = 'out',
+}
+
+// A breakpoint on an AST node or on the statements that start at a source position. Lines are
+// 1-based and columns 0-based like the locations from shift-parser's parseScriptWithLocation.
+export type Breakpoint = { node: Node } | { line: number; column?: number };
+
+// The state of the interpreter at the instruction execution paused on.
+export class PauseLocation {
+  instruction: Instruction;
+  environment: Environment;
+  frame: Frame;
+  depth: number;
+
+  constructor(instruction: Instruction, environment: Environment, frame: Frame, depth: number) {
+    this.instruction = instruction;
+    this.environment = environment;
+    this.frame = frame;
+    this.depth = depth;
+  }
+}
+
+interface PausedExecution {
+  location: PauseLocation;
+  continuation: () => any;
+  // the state of the interpreter when the pause reached the driver of the evaluation
+  environment: Environment;
+  frame: Frame;
+  pausedAt: number;
+}
+
+// Pauses execution at breakpoints, `debugger` statements and while stepping. A pause suspends the
+// whole chain of interpreted calls up to whatever drives the evaluation (a run or an async function)
+// and nothing continues until the debugger resumes. Calls made by host code, e.g. callbacks passed
+// to host functions, are evaluated synchronously and can not be paused.
+export class Debugger {
+  interpreter: Interpreter;
+  breakpoints: Breakpoint[] = [];
+  private pauseRequested = false;
+  private stepping: { mode: StepMode; depth: number } | null = null;
+  private paused: PausedExecution | null = null;
+  // evaluations that were ready to continue while paused
+  private deferred: (() => void)[] = [];
+
+  constructor(interpreter: Interpreter) {
+    this.interpreter = interpreter;
+  }
+
+  addBreakpoint(breakpoint: Breakpoint) {
+    if (!('node' in breakpoint) && !this.interpreter.locations) {
+      throw new InterpreterRuntimeError('Can not set a breakpoint by source location without loaded source locations');
+    }
+    this.breakpoints.push(breakpoint);
+    return breakpoint;
+  }
+
+  removeBreakpoint(breakpoint: Breakpoint) {
+    const index = this.breakpoints.indexOf(breakpoint);
+    if (index > -1) this.breakpoints.splice(index, 1);
+  }
+
+  // Pauses at the next statement.
+  pause() {
+    this.pauseRequested = true;
+  }
+
+  isPaused() {
+    return this.paused !== null;
+  }
+
+  getPauseLocation() {
+    return this.paused ? this.paused.location : null;
+  }
+
+  // The environments visible from where execution is paused, innermost first.
+  getScopeChain() {
+    const chain: Environment[] = [];
+    let env: Environment | null = this.paused ? this.paused.location.environment : this.interpreter.environment;
+    while (env) {
+      chain.push(env);
+      env = env.parent;
+    }
+    return chain;
+  }
+
+  // The resuming methods return what the paused run returns once it completes, or undefined
+  // if execution pauses again or the paused evaluation wasn't a run (e.g. an async function).
+  resume() {
+    return this.continue(null);
+  }
+
+  stepInto() {
+    return this.continue(StepMode.INTO);
+  }
+
+  stepOver() {
+    return this.continue(StepMode.OVER);
+  }
+
+  stepOut() {
+    return this.continue(StepMode.OUT);
+  }
+
+  shouldPause(instruction: Instruction, depth: number) {
+    if (this.paused) return false;
+    const node = instruction.node;
+    if (node.type === 'DebuggerStatement') return true;
+    // requested pauses and steps stop at the next statement
+    if (this.pauseRequested && isStatement(node)) return true;
+    if (this.stepping && isStatement(node)) {
+      switch (this.stepping.mode) {
+        case StepMode.INTO:
+          return true;
+        case StepMode.OVER:
+          if (depth <= this.stepping.depth) return true;
+          break;
+        case StepMode.OUT:
+          if (depth < this.stepping.depth) return true;
+          break;
+      }
+    }
+    return this.breakpoints.length > 0 && this.breakpoints.some(breakpoint => this.matches(breakpoint, node));
+  }
+
+  private matches(breakpoint: Breakpoint, node: Node) {
+    if ('node' in breakpoint) return breakpoint.node === node;
+    if (!isStatement(node) || !this.interpreter.locations) return false;
+    const location = this.interpreter.locations.get(node);
+    if (!location || location.start.line !== breakpoint.line) return false;
+    return breakpoint.column === undefined || location.start.column === breakpoint.column;
+  }
+
+  // Called by the driver of an evaluation once a pause reached it, the continuation resumes the evaluation.
+  suspend(location: PauseLocation, continuation: () => any) {
+    const interpreter = this.interpreter;
+    this.pauseRequested = false;
+    this.stepping = null;
+    this.paused = {
+      location,
+      continuation,
+      environment: interpreter.environment,
+      frame: interpreter.frame,
+      pausedAt: Date.now(),
+    };
+    // inspecting variables while paused sees the paused frame
+    interpreter.environment = location.environment;
+    interpreter.frame = location.frame;
+    interpreter.pointer.emit(InstructionBufferEventName.HALT, location.instruction);
+  }
+
+  // Runs the continuation of an evaluation now, or once the debugger resumes if execution is paused.
+  whenRunning(continuation: () => void) {
+    if (this.paused) this.deferred.push(continuation);
+    else continuation();
+  }
+
+  private continue(mode: StepMode | null) {
+    const paused = this.paused;
+    if (!paused) throw new InterpreterRuntimeError('Execution is not paused');
+    const interpreter = this.interpreter;
+    this.paused = null;
+    interpreter.environment = paused.environment;
+    interpreter.frame = paused.frame;
+    // time spent paused doesn't count against the timeout
+    if (interpreter.deadline !== undefined) interpreter.deadline += Date.now() - paused.pausedAt;
+    this.stepping = mode ? { mode, depth: paused.location.depth } : null;
+    interpreter.pointer.emit(InstructionBufferEventName.CONTINUE, paused.location.instruction);
+    try {
+      return paused.continuation();
+    } finally {
+      while (!this.paused && this.deferred.length > 0) this.deferred.shift()!();
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { Node } from 'shift-ast';
+import { Variable } from 'shift-scope';
+
+// An environment record holds the runtime values for the variables of every scope owned
+// by a single AST node (a function invocation, a block, a loop iteration, etc). Records are
+// chained to the record that was current when they were created, or for functions, the
+// record the function closed over.
+export class Environment {
+  node: Node;
+  parent: Environment | null;
+  bindings = new Map<Variable, any>();
+  // the object of a `with` statement, its properties are looked up before the variables of outer records
+  object?: object;
+  // the variables that the code of a direct `eval` declared in this function's record, by name
+  evalVariables?: Map<string, Variable>;
+
+  constructor(node: Node, parent: Environment | null = null) {
+    this.node = node;
+    this.parent = parent;
+  }
+
+  lookup(node: Node): Environment | undefined {
+    let env: Environment | null = this;
+    while (env) {
+      if (env.node === node) return env;
+      env = env.parent;
+    }
+  }
+
+  // Creates a sibling record with the same bindings, used for per-iteration bindings in loops.
+  copy(): Environment {
+    const env = new Environment(this.node, this.parent);
+    this.bindings.forEach((value, variable) => env.bindings.set(variable, value));
+    return env;
+  }
+}
@@ -1 +1,40 @@
+import { Statement } from 'shift-ast';
+import { Instruction } from './instruction-buffer';
+
 export class InterpreterRuntimeError extends Error {}
+
+// A 1-based line and 0-based column like the locations from shift-parser's parseScriptWithLocation.
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+// Where a run stopped. The positions are null if the script was loaded without source locations, and for code
+// that has none, like the source passed to `eval`.
+export interface ErrorLocation {
+  lastInstruction: Instruction;
+  lastStatement: Statement;
+  file: string | null;
+  nodePosition: SourcePosition | null;
+  statementPosition: SourcePosition | null;
+}
+
+export enum InterpreterLimit {
+  STEPS = 'steps',
+  TIMEOUT = 'timeout',
+}
+
+// Thrown when a run exceeds options.maxSteps or options.timeout. Interpreted code can never catch it.
+export class InterpreterLimitError extends InterpreterRuntimeError {
+  limit: InterpreterLimit;
+  steps: number;
+  errorLocation: ErrorLocation;
+
+  constructor(message: string, limit: InterpreterLimit, steps: number, errorLocation: ErrorLocation) {
+    super(message);
+    this.name = 'InterpreterLimitError';
+    this.limit = limit;
+    this.steps = steps;
+    this.errorLocation = errorLocation;
+  }
+}
@@ -0,0 +1,162 @@
+import { Node } from 'shift-ast';
+import { Variable } from 'shift-scope';
+import { Instruction } from './instruction-buffer';
+import { InstructionNode } from './types';
+
+export enum InterpreterEventName {
+  BEFORE_NODE = 'beforeNode',
+  AFTER_NODE = 'afterNode',
+  CALL = 'call',
+  RETURN = 'return',
+  VARIABLE_READ = 'variableRead',
+  VARIABLE_WRITE = 'variableWrite',
+  PROPERTY_GET = 'propertyGet',
+  PROPERTY_SET = 'propertySet',
+  THROW = 'throw',
+  COMPLETE = 'complete',
+  DYNAMIC_SOURCE = 'dynamicSource',
+}
+
+export enum DynamicSourceKind {
+  // `eval(source)`, evaluated in the scope of the caller
+  DIRECT_EVAL = 'directEval',
+  // any other call of `eval`, e.g. `(0, eval)(source)`, evaluated in the global scope
+  INDIRECT_EVAL = 'indirectEval',
+  FUNCTION = 'Function',
+}
+
+export abstract class InterpreterEvent {
+  static type = InterpreterEventName;
+}
+
+export class InterpreterBeforeNodeEvent extends InterpreterEvent {
+  node: InstructionNode;
+  instruction: Instruction;
+  constructor(instruction: Instruction) {
+    super();
+    this.node = instruction.node;
+    this.instruction = instruction;
+  }
+}
+
+export class InterpreterAfterNodeEvent extends InterpreterEvent {
+  node: InstructionNode;
+  instruction: Instruction;
+  result: any;
+  constructor(instruction: Instruction) {
+    super();
+    this.node = instruction.node;
+    this.instruction = instruction;
+    this.result = instruction.result;
+  }
+}
+
+// Calls made by interpreted code, `node` is the CallExpression or NewExpression.
+export class InterpreterCallEvent extends InterpreterEvent {
+  node: Node;
+  fn: Function;
+  thisArg: any;
+  args: any[];
+  constructor(node: Node, fn: Function, thisArg: any, args: any[]) {
+    super();
+    this.node = node;
+    this.fn = fn;
+    this.thisArg = thisArg;
+    this.args = args;
+  }
+}
+
+export class InterpreterReturnEvent extends InterpreterEvent {
+  node: Node;
+  fn: Function;
+  result: any;
+  constructor(node: Node, fn: Function, result: any) {
+    super();
+    this.node = node;
+    this.fn = fn;
+    this.result = result;
+  }
+}
+
+export class InterpreterVariableReadEvent extends InterpreterEvent {
+  node: Node;
+  variable: Variable;
+  value: any;
+  constructor(node: Node, variable: Variable, value: any) {
+    super();
+    this.node = node;
+    this.variable = variable;
+    this.value = value;
+  }
+}
+
+export class InterpreterVariableWriteEvent extends InterpreterEvent {
+  variable: Variable;
+  value: any;
+  constructor(variable: Variable, value: any) {
+    super();
+    this.variable = variable;
+    this.value = value;
+  }
+}
+
+export class InterpreterPropertyEvent extends InterpreterEvent {
+  node: Node;
+  object: any;
+  property: PropertyKey;
+  value: any;
+  constructor(node: Node, object: any, property: PropertyKey, value: any) {
+    super();
+    this.node = node;
+    this.object = object;
+    this.property = property;
+    this.value = value;
+  }
+}
+
+// Emitted once where an error is thrown, and again only if interpreted code catches and rethrows it.
+export class InterpreterThrowEvent extends InterpreterEvent {
+  node: InstructionNode;
+  error: any;
+  constructor(node: InstructionNode, error: any) {
+    super();
+    this.node = node;
+    this.error = error;
+  }
+}
+
+export class InterpreterCompleteEvent extends InterpreterEvent {
+  result: any;
+  constructor(result: any) {
+    super();
+    this.result = result;
+  }
+}
+
+// Source code interpreted code creates at runtime, emitted before the source is parsed. `node` is the call that
+// passed it, it is null if host code made the call, e.g. `eval.call(null, source)`.
+export class InterpreterDynamicSourceEvent extends InterpreterEvent {
+  node: Node | null;
+  kind: DynamicSourceKind;
+  source: string;
+  constructor(node: Node | null, kind: DynamicSourceKind, source: string) {
+    super();
+    this.node = node;
+    this.kind = kind;
+    this.source = source;
+  }
+}
+
+export interface InterpreterEvents {
+  [InterpreterEventName.BEFORE_NODE]: InterpreterBeforeNodeEvent;
+  [InterpreterEventName.AFTER_NODE]: InterpreterAfterNodeEvent;
+  [InterpreterEventName.CALL]: InterpreterCallEvent;
+  [InterpreterEventName.RETURN]: InterpreterReturnEvent;
+  [InterpreterEventName.VARIABLE_READ]: InterpreterVariableReadEvent;
+  [InterpreterEventName.VARIABLE_WRITE]: InterpreterVariableWriteEvent;
+  [InterpreterEventName.PROPERTY_GET]: InterpreterPropertyEvent;
+  [InterpreterEventName.PROPERTY_SET]: InterpreterPropertyEvent;
+  [InterpreterEventName.THROW]: InterpreterThrowEvent;
+  [InterpreterEventName.COMPLETE]: InterpreterCompleteEvent;
+  [InterpreterEventName.DYNAMIC_SOURCE]: InterpreterDynamicSourceEvent;
+}
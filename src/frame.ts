@@ -0,0 +1,62 @@
+import { ArrowExpression, Node } from 'shift-ast';
+import { Environment } from './environment';
+import { Instruction } from './instruction-buffer';
+import { FuncType } from './types';
+
+// Stands in for the `this` value of a derived class constructor until it calls `super()`.
+export const uninitializedThis = Object.freeze(Object.create(null));
+
+// The execution state of an interpreted function call that needs to be restored whenever
+// its evaluation is stepped, e.g. each time a suspended generator is resumed.
+export class Frame {
+  context: any;
+  environment: Environment;
+  // the function being called, arrow functions share it with the frame they were created in
+  callee: Function | null = null;
+  // the object a method was defined on, `super` property lookups start at its prototype
+  homeObject: object | null = null;
+  newTarget: Function | undefined = undefined;
+  // the frame an arrow function was created in, it shares its `this` binding
+  enclosingFrame: Frame | null = null;
+  // the node and name of the called function, null for the frames of scripts and the code passed to eval
+  node: FuncType | ArrowExpression | null = null;
+  name = '';
+  // the node the calling frame was evaluating when the call was made, null for calls from host code
+  callSite: Node | null = null;
+  // the instructions being evaluated in this frame, innermost last
+  instructions: Instruction[] = [];
+
+  constructor(context: any, environment: Environment) {
+    this.context = context;
+    this.environment = environment;
+  }
+
+  // Shares the function state of an enclosing frame, for arrow functions.
+  inherit(frame: Frame) {
+    this.callee = frame.callee;
+    this.homeObject = frame.homeObject;
+    this.newTarget = frame.newTarget;
+    this.enclosingFrame = frame;
+    return this;
+  }
+
+  // The frame that owns the `this` binding, which `super()` initializes in derived class constructors.
+  getThisFrame() {
+    let frame: Frame = this;
+    while (frame.enclosingFrame) frame = frame.enclosingFrame;
+    return frame;
+  }
+
+  // Records the function called in this frame and where the calling frame called it.
+  setCall(node: FuncType | ArrowExpression, name: string, caller: Frame) {
+    this.node = node;
+    this.name = name;
+    this.callSite = caller.currentNode();
+    return this;
+  }
+
+  currentNode(): Node | null {
+    const instruction = this.instructions[this.instructions.length - 1];
+    return instruction ? instruction.node : null;
+  }
+}
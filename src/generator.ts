@@ -0,0 +1,117 @@
+import { Frame } from './frame';
+import { Interpreter } from './interpreter';
+import { Evaluation, SuspensionType } from './suspension';
+
+// Thrown into a suspended generator body when `return()` is called on the generator so that the
+// body's finalizers run as the evaluation unwinds. Interpreted code can never catch it.
+export class GeneratorReturn {
+  value: any;
+  constructor(value: any) {
+    this.value = value;
+  }
+}
+
+enum GeneratorState {
+  SUSPENDED_START = 'suspendedStart',
+  SUSPENDED_YIELD = 'suspendedYield',
+  EXECUTING = 'executing',
+  COMPLETED = 'completed',
+}
+
+type ResumptionType = 'next' | 'throw' | 'return';
+
+const generators = new WeakMap<object, InterpreterGenerator>();
+
+function getGenerator(obj: any, method: string) {
+  const generator = generators.get(obj);
+  if (!generator) throw new TypeError(`${method} method called on incompatible receiver ${String(obj)}`);
+  return generator;
+}
+
+const IteratorPrototype = Object.getPrototypeOf(Object.getPrototypeOf([][Symbol.iterator]()));
+
+// Creates a stand-in for %GeneratorPrototype%, whose native methods only work on host generator objects. Interpreted
+// code can change it, so every loaded script gets its own.
+export function createGeneratorPrototype() {
+  const methods = {
+    next(this: object, value?: any) {
+      return getGenerator(this, 'next').resume('next', value);
+    },
+    return(this: object, value?: any) {
+      return getGenerator(this, 'return').resume('return', value);
+    },
+    throw(this: object, exception?: any) {
+      return getGenerator(this, 'throw').resume('throw', exception);
+    },
+  };
+  return Object.create(IteratorPrototype, {
+    next: { value: methods.next, writable: true, configurable: true },
+    return: { value: methods.return, writable: true, configurable: true },
+    throw: { value: methods.throw, writable: true, configurable: true },
+    [Symbol.toStringTag]: { value: 'Generator', configurable: true },
+  });
+}
+
+export class InterpreterGenerator {
+  state = GeneratorState.SUSPENDED_START;
+  interpreter: Interpreter;
+  evaluation: Evaluation;
+  frame: Frame;
+
+  constructor(interpreter: Interpreter, evaluation: Evaluation, frame: Frame) {
+    this.interpreter = interpreter;
+    this.evaluation = interpreter.runCalls(evaluation);
+    this.frame = frame;
+  }
+
+  resume(type: ResumptionType, value: any): IteratorResult<any> {
+    if (this.state === GeneratorState.EXECUTING) throw new TypeError('Generator is already running');
+    if (this.state === GeneratorState.SUSPENDED_START && type !== 'next') this.state = GeneratorState.COMPLETED;
+    if (this.state === GeneratorState.COMPLETED) {
+      if (type === 'throw') throw value;
+      return this.createResult(type === 'return' ? value : undefined, true);
+    }
+
+    this.state = GeneratorState.EXECUTING;
+    let result;
+    try {
+      result = this.interpreter.withFrame(this.frame, () => {
+        if (type === 'next') return this.evaluation.next(value);
+        else if (type === 'throw') return this.evaluation.throw(value);
+        else return this.evaluation.throw(new GeneratorReturn(value));
+      });
+      // generators are resumed synchronously by their callers so the debugger can't pause them
+      while (!result.done && result.value.type === SuspensionType.PAUSE) {
+        result = this.interpreter.withFrame(this.frame, () => this.evaluation.next());
+      }
+    } catch (e) {
+      this.state = GeneratorState.COMPLETED;
+      if (e instanceof GeneratorReturn) return this.createResult(e.value, true);
+      throw e;
+    }
+
+    if (result.done) {
+      this.state = GeneratorState.COMPLETED;
+      return this.createResult(result.value, true);
+    }
+    this.state = GeneratorState.SUSPENDED_YIELD;
+    const suspension = result.value;
+    if (suspension.type !== SuspensionType.YIELD) {
+      throw new TypeError(`Can not suspend a generator with ${suspension.type}`);
+    }
+    return this.createResult(suspension.value, false);
+  }
+
+  // The results are objects of interpreted code, with the realm's prototypes in isolated mode.
+  private createResult(value: any, done: boolean): IteratorResult<any> {
+    return this.interpreter.adopt({ value, done });
+  }
+}
+
+export function createGenerator(interpreter: Interpreter, prototype: any, evaluation: Evaluation, frame: Frame) {
+  const generator = Object.create(
+    typeof prototype === 'object' && prototype !== null ? prototype : interpreter.generatorPrototype,
+  );
+  generators.set(generator, new InterpreterGenerator(interpreter, evaluation, frame));
+  return generator;
+}
@@ -1,15 +1,16 @@
-import { Script } from 'shift-ast';
-import { parseScript } from 'shift-parser';
+import { Node, Script } from 'shift-ast';
+import { parseScriptWithLocation, SourceSpan } from 'shift-parser';
 import { Interpreter } from './interpreter';
 
 export function interpretSource(source: string, context = {}) {
-  return interpretTree(parseScript(source), context);
+  const { tree, locations } = parseScriptWithLocation(source);
+  return interpretTree(tree, context, locations);
 }
 
-export function interpretTree(tree: Script, context = {}) {
+export function interpretTree(tree: Script, context = {}, locations?: WeakMap<Node, SourceSpan>) {
   const interpreter = new Interpreter();
   interpreter.pushContext(context);
-  interpreter.load(tree);
+  interpreter.load(tree, {}, locations);
   return interpreter.run();
 }
 
@@ -18,3 +19,22 @@ export default interpretSource;
 export const interpret = interpretSource;
 
 export { Interpreter } from './interpreter';
+export {
+  ErrorLocation,
+  InterpreterLimit,
+  InterpreterLimitError,
+  InterpreterRuntimeError,
+  SourcePosition,
+} from './errors';
+export { Breakpoint, Debugger, PauseLocation, StepMode } from './debugger';
+export { Frame } from './frame';
+export { Repl } from './repl';
+export { BasicContext, createBrowserContext } from './context';
+export { BrowserEnvironment, BrowserEnvironmentOptions, BrowserLogEntry, BrowserLogType } from './browser';
+export { VirtualClock } from './clock';
+export { Realm } from './realm';
+export { TraceEntry, Tracer, TracerOptions } from './tracer';
+export * from './events';
+export { PartialEvaluator, PartialEvaluatorOptions } from './partial-evaluator';
+export { StringArrayDecoder, StringArrayDecoderOptions, StringArrayLayout } from './string-array';
+export { Coverage, CoveragePosition, CoverageRange, FileCoverage } from './coverage';
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { InstructionNode } from './types';
 
 export enum InstructionBufferEventName {
@@ -16,7 +17,8 @@ export class Instruction {
   }
 }
 
-export class InstructionBuffer {
+// Emits HALT with the paused instruction when the debugger pauses execution and CONTINUE when it resumes.
+export class InstructionBuffer extends EventEmitter {
   buffer: Instruction[] = [];
   numInstructions = 0;
   add(node: InstructionNode): Instruction {
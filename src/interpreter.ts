@@ -3,10 +3,12 @@ import DEBUG from 'debug';
 import { EventEmitter } from 'events';
 import {
   ArrayBinding,
+  ArrowExpression,
   BindingIdentifier,
   BindingWithDefault,
   EmptyStatement,
   Expression,
+  Method,
   Node,
   ObjectBinding,
   Script,
@@ -14,63 +16,218 @@ import {
   VariableDeclaration,
   VariableDeclarationStatement,
 } from 'shift-ast';
+import { parseScript, SourceSpan } from 'shift-parser';
 import * as codegen from 'shift-printer';
-import shiftScope, { Scope, ScopeLookup, Variable } from 'shift-scope';
+import shiftScope, {
+  Declaration,
+  DeclarationType,
+  Reference,
+  Scope,
+  ScopeLookup,
+  ScopeType,
+  Variable,
+} from 'shift-scope';
+import { Completion, CompletionType } from './completion';
+import { createAsyncGenerator, createAsyncGeneratorPrototype, runAsyncFunction } from './async';
 import { BasicContext } from './context';
-import { InterpreterRuntimeError } from './errors';
+import { Debugger, PauseLocation } from './debugger';
+import { Environment } from './environment';
+import {
+  DynamicSourceKind,
+  InterpreterAfterNodeEvent,
+  InterpreterBeforeNodeEvent,
+  InterpreterCompleteEvent,
+  InterpreterDynamicSourceEvent,
+  InterpreterEventName,
+  InterpreterEvents,
+  InterpreterPropertyEvent,
+  InterpreterThrowEvent,
+  InterpreterVariableReadEvent,
+  InterpreterVariableWriteEvent,
+} from './events';
+import {
+  ErrorLocation,
+  InterpreterLimit,
+  InterpreterLimitError,
+  InterpreterRuntimeError,
+  SourcePosition,
+} from './errors';
+import { Frame, uninitializedThis } from './frame';
+import { createGenerator, createGeneratorPrototype, GeneratorReturn } from './generator';
 import { InstructionBuffer, Instruction } from './instruction-buffer';
 import { NodeHandler } from './node-handler';
-import { BlockType, FuncType, Identifier, InstructionNode } from './types';
-import { isStatement } from './util';
+import { Realm } from './realm';
+import { Tracer } from './tracer';
+import { Coverage } from './coverage';
+import { Evaluation, Suspension, SuspensionType } from './suspension';
+import { BindingTarget, BlockType, FuncType, Identifier, InstructionNode } from './types';
+import {
+  closeIterator,
+  createArgumentsObject,
+  extendDebug,
+  getBindingIdentifiers,
+  getIterator,
+  isError,
+  isStatement,
+} from './util';
 
 const debug = DEBUG('shift-interpreter');
 
-interface Options {
-  skipUnsupported?: boolean;
-  handler?: { new (interpreter: Interpreter): NodeHandler };
+function* emptyEvaluation(): Evaluation {
+  return undefined;
+}
+
+const GeneratorFunction = Object.getPrototypeOf(function*() {}).constructor;
+
+const interpreterEventNames = new Set<string>(Object.values(InterpreterEventName));
+
+// Whether a name inside of `with (object)` refers to a property of the object, names in `Symbol.unscopables` don't.
+function hasWithBinding(object: any, name: string) {
+  if (!(name in object)) return false;
+  const unscopables = object[Symbol.unscopables];
+  return !(unscopables !== null && typeof unscopables === 'object' && unscopables[name]);
 }
 
-export enum InterpreterEventName {
-  COMPLETE = 'complete',
+// Functions and arrow functions own the variable environment of their body.
+function isFunctionScope(scope: Scope) {
+  return scope.type === ScopeType.FUNCTION || scope.type === ScopeType.ARROW_FUNCTION;
 }
 
-export abstract class InterpreterEvent {
-  static type = InterpreterEventName;
+// shift-scope marks the scopes that call `eval` directly as dynamic, like those of `with` statements and the global scope.
+function containsDirectEval(scope: Scope) {
+  return scope.dynamic && scope.type !== ScopeType.WITH && scope.type !== ScopeType.GLOBAL;
 }
 
-export class InterpreterCompleteEvent extends InterpreterEvent {
-  result: any;
-  constructor(result: any) {
-    super();
-    this.result = result;
-  }
+// Declarations that belong to the function or script around them, also when they are inside of blocks.
+function isVarDeclaration(declaration: Declaration) {
+  return declaration.type.isFunctionScoped || declaration.type === DeclarationType.FUNCTION_DECLARATION;
+}
+
+// What entering a frame replaced, restored when the frame is left.
+interface FrameState {
+  environment: Environment;
+  frame: Frame;
 }
-export class Interpreter {
+
+function isInterpreterEventName(event: string): event is InterpreterEventName {
+  return interpreterEventNames.has(event);
+}
+
+interface Options {
+  skipUnsupported?: boolean;
+  handler?: { new (interpreter: Interpreter): NodeHandler };
+  // the maximum number of instructions a run may evaluate
+  maxSteps?: number;
+  // the number of milliseconds a run may take
+  timeout?: number;
+  // evaluate with fresh built-ins and expose the host values of the context through copy-on-write proxies
+  isolated?: boolean;
+}
+
+export interface Interpreter {
+  on<K extends InterpreterEventName>(event: K, listener: (event: InterpreterEvents[K]) => void): this;
+  on(event: string | symbol, listener: (...args: any[]) => void): this;
+  once<K extends InterpreterEventName>(event: K, listener: (event: InterpreterEvents[K]) => void): this;
+  once(event: string | symbol, listener: (...args: any[]) => void): this;
+  off<K extends InterpreterEventName>(event: K, listener: (event: InterpreterEvents[K]) => void): this;
+  off(event: string | symbol, listener: (...args: any[]) => void): this;
+  emit<K extends InterpreterEventName>(event: K, payload: InterpreterEvents[K]): boolean;
+  emit(event: string | symbol, ...args: any[]): boolean;
+}
+
+export class Interpreter extends EventEmitter {
   contexts: BasicContext[] = [];
   globalScope: Scope = shiftScope(new Script({ directives: [], statements: [] }));
   lookupTable: ScopeLookup = new ScopeLookup(this.globalScope);
   scopeMap: WeakMap<Variable, Scope> = new WeakMap();
   scopeOwnerMap: WeakMap<Node, Scope> = new WeakMap();
+  // the variables that live in the global environment by name, including those of extending scripts
+  globalVariables: Map<string, Variable> = new Map();
+  private extensions: WeakSet<Script> = new WeakSet();
+  // identifiers that can refer to a property of the object of a `with` statement, resolved at runtime
+  private withReferences: WeakSet<Node> = new WeakSet();
+  // identifiers that can refer to a variable declared by a direct `eval` in a function, resolved at runtime
+  private evalReferences: WeakSet<Node> = new WeakSet();
+  // the last value written to each variable, used when inspecting variables outside of their environment
   variableMap = new Map<Variable, any>();
   options: Options;
   loadedScript: Script = new Script({ directives: [], statements: [] });
+  globalEnvironment: Environment = new Environment(this.loadedScript);
+  environment: Environment = this.globalEnvironment;
+  frame: Frame = new Frame(undefined, this.globalEnvironment);
   handler: NodeHandler;
-  contextProxies = new WeakMap<typeof Proxy, any>();
+  // the host values exposed to interpreted code in isolated mode by their proxies
+  contextProxies = new WeakMap<object, any>();
+  // the fresh built-ins of isolated mode
+  realm?: Realm;
   pointer = new InstructionBuffer();
+  debugger: Debugger = new Debugger(this);
+  // source locations of the loaded script's nodes, from shift-parser's parseScriptWithLocation
+  locations?: WeakMap<Node, SourceSpan>;
+  // the name of the loaded script's file, for error locations
+  file?: string;
+  // evaluates calls of the functions this interpreter created without crossing into host code
+  interpretedCalls = new WeakMap<Function, (thisArg: any, args: any[]) => Evaluation>();
+  // stand in for `eval` and `Function` of the host and the realm to interpret the source passed to them
+  evalFunction: Function;
+  functionConstructor: Function;
+  private dynamicCode = new Map<Function, Function>();
+  // the prototypes of the generator objects of the loaded script
+  generatorPrototype = createGeneratorPrototype();
+  asyncGeneratorPrototype = createAsyncGeneratorPrototype();
+  // the `this` value of the global scope, code passed to indirect `eval` and `Function` runs with it
+  private globalContext: BasicContext = {};
+  // the number of frames entered, used to step over and out of calls
+  frameDepth = 0;
+  // the frame that was current before each frame that is entered, outermost first
+  private callerFrames: Frame[] = [];
+  // the errors that were given the interpreted call stack as their stack
+  private errorStacks = new WeakSet<object>();
+  // records the evaluated instructions while set
+  tracer?: Tracer;
+  // counts the evaluations of each node while set
+  coverage?: Coverage;
   lastStatement: Statement = new EmptyStatement();
   lastInstruction: Instruction = new Instruction(new EmptyStatement(), -1);
-  _isReturning: boolean = false;
-  _isBreaking: boolean = false;
-  _isContinuing: boolean = false;
-  errorLocation?: { lastInstruction: Instruction; lastStatement: Statement };
+  completion: Completion = new Completion();
+  errorLocation?: ErrorLocation;
+  // the number of instructions evaluated since the last run started, including async continuations
+  steps = 0;
+  deadline?: number;
+
+  // the events that have listeners, checked before creating an event so that emitting costs nothing without them
+  observed: { [K in InterpreterEventName]?: boolean } = {};
+  // the error last reported with a THROW event while it propagates
+  private thrown: { error: any } | null = null;
 
   constructor(options: Options = {}) {
+    super();
+    this.on('newListener', (event: string) => {
+      if (isInterpreterEventName(event)) this.observed[event] = true;
+    });
+    this.on('removeListener', (event: string) => {
+      if (isInterpreterEventName(event)) this.observed[event] = this.listenerCount(event) > 0;
+    });
     this.options = options;
     if (this.options.handler) {
       this.handler = new this.options.handler(this);
     } else {
       this.handler = new NodeHandler(this);
     }
+    const interpreter = this;
+    this.evalFunction = {
+      eval(source: any) {
+        return interpreter.runEvaluation(interpreter.evaluateEval(source, null, false));
+      },
+    }.eval;
+    this.functionConstructor = {
+      Function: function(...args: any[]) {
+        return interpreter.runEvaluation(interpreter.evaluateFunctionConstructor(args, null));
+      },
+    }.Function;
+    this.functionConstructor.prototype = Function.prototype;
+    this.dynamicCode.set(eval, this.evalFunction);
+    this.dynamicCode.set(Function, this.functionConstructor);
   }
 
   print(node?: Node) {
@@ -90,26 +247,233 @@ export class Interpreter {
     throw new InterpreterRuntimeError(`Unsupported node ${type}`);
   }
 
-  load(script: Script, context: BasicContext = {}) {
+  load(script: Script, context: BasicContext = {}, locations?: WeakMap<Node, SourceSpan>, file?: string) {
     debug('loading script');
+    this.locations = locations;
+    this.file = file;
+    if (this.options.isolated) {
+      this.realm = new Realm(this.contextProxies);
+      context = this.realm.createContext(context);
+      this.dynamicCode.set(this.realm.global.eval, this.evalFunction);
+      this.dynamicCode.set(this.realm.global.Function, this.functionConstructor);
+      this.functionConstructor.prototype = this.realm.global.Function.prototype;
+      this.adopt(this.evalFunction);
+      this.adopt(this.functionConstructor);
+    }
+    this.generatorPrototype = createGeneratorPrototype();
+    this.asyncGeneratorPrototype = createAsyncGeneratorPrototype();
+    for (const prototype of [this.generatorPrototype, this.asyncGeneratorPrototype]) {
+      this.adopt(prototype);
+      for (const method of ['next', 'return', 'throw']) this.adopt(prototype[method]);
+    }
+    // e.g. the `eval` and `Function` of createBrowserContext(), which interpreted code can also reach as values
+    for (const name of Object.keys(context)) {
+      const descriptor = Object.getOwnPropertyDescriptor(context, name);
+      if (descriptor && descriptor.writable && this.dynamicCode.has(descriptor.value)) {
+        context[name] = this.dynamicCode.get(descriptor.value);
+      }
+    }
+    this.globalContext = context;
     this.globalScope = shiftScope(script);
     this.lookupTable = new ScopeLookup(this.globalScope);
     this.buildScopeMap();
+    this.globalVariables = new Map();
+    for (const scope of this.getGlobalScopes(this.globalScope, script)) {
+      scope.variableList.forEach(variable => this.globalVariables.set(variable.name, variable));
+    }
     this.loadedScript = script;
+    this.globalEnvironment = new Environment(script);
+    this.environment = this.globalEnvironment;
+    this.frame = new Frame(context, this.globalEnvironment);
     this.pushContext(context);
   }
 
   private buildScopeMap() {
     const lookupTable = this.lookupTable;
     this.scopeMap = new WeakMap();
-    const recurse = (scope: Scope) => {
+    const recurse = (scope: Scope, functionScope: Scope | null) => {
       this.scopeOwnerMap.set(scope.astNode, scope);
       scope.variableList.forEach((variable: Variable) => {
         this.scopeMap.set(variable, scope);
       });
-      scope.children.forEach(recurse);
+      if (scope.type === ScopeType.WITH) this.markWithReferences(scope);
+      if (isFunctionScope(scope)) functionScope = scope;
+      if (functionScope && containsDirectEval(scope)) this.markEvalReferences(functionScope);
+      scope.children.forEach(child => recurse(child, functionScope));
     };
-    recurse(lookupTable.scope);
+    recurse(lookupTable.scope, null);
+  }
+
+  // The global scope and the script's top level scope share the global environment.
+  private getGlobalScopes(globalScope: Scope, script: Script) {
+    return [globalScope, ...globalScope.children.filter(child => child.astNode === script)];
+  }
+
+  // Merges another script into the loaded script's scope so that running it works on the loaded script's
+  // state, e.g. for input read by a REPL. Its global variables are shared with the loaded script by name.
+  extend(script: Script) {
+    debug('extending script');
+    this.mergeScript(script, this.globalEnvironment);
+    this.extensions.add(script);
+  }
+
+  // Merges the scopes of a script into the loaded script's. Its free variables refer to the variables visible in
+  // the passed environment. Its declarations are global if that is the global environment, otherwise its var and
+  // function declarations go to the variable environment, like those of sloppy mode `eval`, and the others stay in
+  // the script's own environment.
+  private mergeScript(script: Script, environment: Environment, varEnvironment?: Environment) {
+    const globalScope = shiftScope(script);
+    const lookupTable = new ScopeLookup(globalScope);
+    const globalScopes = this.getGlobalScopes(globalScope, script);
+    const isGlobal = environment === this.globalEnvironment;
+    const varScope =
+      varEnvironment && varEnvironment !== this.globalEnvironment ? this.scopeOwnerMap.get(varEnvironment.node) : null;
+    const aliases = new Map<Variable, Variable>();
+    for (const scope of globalScopes) {
+      for (const variable of scope.variableList) {
+        const isVar = !isGlobal && variable.declarations.length > 0 && variable.declarations.every(isVarDeclaration);
+        const isLocal = !isGlobal && variable.declarations.length > 0 && !(isVar && varEnvironment);
+        const existing = isLocal
+          ? undefined
+          : this.resolveVariable(variable.name, environment, isVar ? varEnvironment : undefined);
+        if (existing) {
+          existing.declarations.push(...variable.declarations);
+          existing.references.push(...variable.references);
+          aliases.set(variable, existing);
+        } else if (isLocal) {
+          this.scopeMap.set(variable, scope);
+        } else if (varEnvironment && varScope && isVar) {
+          this.scopeMap.set(variable, varScope);
+          if (!varEnvironment.evalVariables) varEnvironment.evalVariables = new Map();
+          varEnvironment.evalVariables.set(variable.name, variable);
+        } else {
+          this.globalVariables.set(variable.name, variable);
+          this.scopeMap.set(variable, this.globalScope);
+        }
+      }
+    }
+    const recurse = (scope: Scope, functionScope: Scope | null) => {
+      if (!globalScopes.includes(scope)) {
+        this.scopeOwnerMap.set(scope.astNode, scope);
+        scope.variableList.forEach((variable: Variable) => this.scopeMap.set(variable, scope));
+      }
+      if (scope.type === ScopeType.WITH) this.markWithReferences(scope);
+      if (isFunctionScope(scope)) functionScope = scope;
+      if (functionScope && containsDirectEval(scope)) this.markEvalReferences(functionScope);
+      scope.children.forEach(child => recurse(child, functionScope));
+    };
+    recurse(globalScope, null);
+    // code of a direct `eval` can run inside of a `with` statement and see what other code of `eval` declared
+    if (!isGlobal) {
+      this.markWithReferences(globalScope);
+      this.markEvalReferences(globalScope);
+    }
+    lookupTable.variableMap.forEachEntry((variables: Variable[], node: Node) => {
+      for (const variable of variables) this.lookupTable.variableMap.set(node, aliases.get(variable) || variable);
+    });
+  }
+
+  private markWithReferences(scope: Scope) {
+    scope.through.forEachEntry((references: Reference[]) =>
+      references.forEach(reference => this.withReferences.add(reference.node)),
+    );
+  }
+
+  private markEvalReferences(scope: Scope) {
+    scope.through.forEachEntry((references: Reference[]) =>
+      references.forEach(reference => this.evalReferences.add(reference.node)),
+    );
+  }
+
+  // Finds the variable a name refers to in an environment by the variables bound in it and its parents, up to the
+  // last environment if one is passed.
+  private resolveVariable(name: string, environment: Environment, last?: Environment) {
+    for (let env: Environment | null = environment; env && env !== this.globalEnvironment; env = env.parent) {
+      for (const variable of env.bindings.keys()) {
+        if (variable.name === name) return variable;
+      }
+      if (env === last) return;
+    }
+    return this.globalVariables.get(name);
+  }
+
+  // The innermost function environment, whose record gets the var and function declarations of a direct `eval`.
+  private getVarEnvironment() {
+    for (let env: Environment | null = this.environment; env; env = env.parent) {
+      const scope = this.scopeOwnerMap.get(env.node);
+      if (scope && isFunctionScope(scope)) return env;
+    }
+    return this.globalEnvironment;
+  }
+
+  // Parses source code created at runtime, reporting it first. Parse errors are thrown to interpreted code.
+  private parseDynamicSource(source: string, kind: DynamicSourceKind, node: Node | null) {
+    debug(`parsing dynamic source (%o)`, kind);
+    if (this.observed[InterpreterEventName.DYNAMIC_SOURCE]) {
+      this.emit(InterpreterEventName.DYNAMIC_SOURCE, new InterpreterDynamicSourceEvent(node, kind, source));
+    }
+    try {
+      return parseScript(source);
+    } catch (e) {
+      throw this.adopt(new SyntaxError(e.message));
+    }
+  }
+
+  // Evaluates the source passed to `eval`, in the current environment for direct calls like `eval(source)` and
+  // in the global one otherwise. Values other than strings are returned as they are.
+  *evaluateEval(source: any, node: Node | null, direct: boolean): Evaluation {
+    if (typeof source !== 'string') return source;
+    const kind = direct ? DynamicSourceKind.DIRECT_EVAL : DynamicSourceKind.INDIRECT_EVAL;
+    const script = this.parseDynamicSource(source, kind, node);
+    if (!direct) {
+      this.mergeScript(script, this.globalEnvironment);
+      return yield* this.evaluateInFrame(
+        new Frame(this.globalContext, this.globalEnvironment),
+        this.evaluateNode(script),
+      );
+    }
+    // declarations of strict mode code stay in its own environment
+    const isStrict = script.directives.some(directive => directive.rawValue === 'use strict');
+    this.mergeScript(script, this.environment, isStrict ? undefined : this.getVarEnvironment());
+    const previous = this.enterEnvironment(script);
+    try {
+      return yield* this.evaluateNode(script);
+    } finally {
+      this.exitEnvironment(previous);
+    }
+  }
+
+  // Creates a function from the arguments of `Function`, the last one is the body and the others the parameters.
+  // Like `Function`, the function is created in the global scope.
+  *evaluateFunctionConstructor(args: any[], node: Node | null): Evaluation {
+    const params = args.slice(0, -1).map(String);
+    const body = args.length > 0 ? String(args[args.length - 1]) : '';
+    const source = `(function anonymous(${params.join(',')}\n) {\n${body}\n})`;
+    const script = this.parseDynamicSource(source, DynamicSourceKind.FUNCTION, node);
+    // parameters or a body like `}); (function() {` could otherwise break out of the function
+    const statement = script.statements[0];
+    if (
+      script.statements.length !== 1 ||
+      statement.type !== 'ExpressionStatement' ||
+      statement.expression.type !== 'FunctionExpression'
+    ) {
+      throw this.adopt(new SyntaxError('Invalid parameters or body passed to Function'));
+    }
+    this.mergeScript(script, this.globalEnvironment);
+    return yield* this.evaluateInFrame(
+      new Frame(this.globalContext, this.globalEnvironment),
+      this.evaluateNode(script),
+    );
+  }
+
+  enterEnvironment(node: Node, parent: Environment = this.environment) {
+    const previous = this.environment;
+    this.environment = new Environment(node, parent);
+    return previous;
+  }
+
+  exitEnvironment(previous: Environment) {
+    this.environment = previous;
   }
 
   pushContext(context: any) {
@@ -140,26 +504,38 @@ export class Interpreter {
     return context;
   }
 
+  complete(type: CompletionType = CompletionType.NORMAL, value?: any, target: string | null = null) {
+    this.completion = new Completion(type, value, target);
+  }
+
+  isAbrupt() {
+    return this.completion.isAbrupt();
+  }
+
   isReturning(state?: boolean) {
-    if (state !== undefined) this._isReturning = state;
-    return this._isReturning;
+    return this.completionState(CompletionType.RETURN, state);
   }
 
   isBreaking(state?: boolean) {
-    if (state !== undefined) this._isBreaking = state;
-    return this._isBreaking;
+    return this.completionState(CompletionType.BREAK, state);
   }
 
   isContinuing(state?: boolean) {
-    if (state !== undefined) this._isContinuing = state;
-    return this._isContinuing;
+    return this.completionState(CompletionType.CONTINUE, state);
+  }
+
+  private completionState(type: CompletionType, state?: boolean) {
+    if (state === true) this.complete(type);
+    else if (state === false && this.completion.type === type) this.complete();
+    return this.completion.type === type;
   }
 
-  run(passedNode?: InstructionNode): Promise<any> {
+  run(passedNode?: InstructionNode): any {
+    this.assertNotPaused();
     let nodeToEvaluate: InstructionNode | undefined = undefined;
 
     if (passedNode) {
-      if (passedNode.type === 'Script') {
+      if (passedNode.type === 'Script' && !this.extensions.has(passedNode)) {
         this.load(passedNode);
       }
       nodeToEvaluate = passedNode;
@@ -183,69 +559,334 @@ export class Interpreter {
     }
 
     debug('starting execution');
-    let programResult: any = null;
+    this.complete();
+    this.thrown = null;
+    this.steps = 0;
+    this.deadline = this.options.timeout === undefined ? undefined : Date.now() + this.options.timeout;
+    const evaluation = this.runCalls(this.evaluateNode(nodeToEvaluate));
+    return this.continueRun(evaluation);
+  }
+  // A new run while paused would run without breakpoints and the paused run would later continue on its state.
+  private assertNotPaused() {
+    if (this.debugger.isPaused()) {
+      throw new InterpreterRuntimeError('Can not run while execution is paused, resume or step the debugger instead');
+    }
+  }
+  // Steps the evaluation of a run until it completes or the debugger pauses it, in which case the
+  // run continues when the debugger resumes.
+  private continueRun(evaluation: Evaluation) {
     try {
-      programResult = this.evaluate(nodeToEvaluate);
-      debug(`completed execution with result: %o`, programResult);
-      return programResult;
+      const result = evaluation.next();
+      if (result.done) {
+        debug(`completed execution with result: %o`, result.value);
+        if (this.observed[InterpreterEventName.COMPLETE]) {
+          this.emit(InterpreterEventName.COMPLETE, new InterpreterCompleteEvent(result.value));
+        }
+        return this.toHostResult(result.value);
+      }
+      const suspension = result.value;
+      if (suspension.type !== SuspensionType.PAUSE) {
+        throw new InterpreterRuntimeError(
+          `Can not suspend execution (${suspension.type}) outside of a generator or async function`,
+        );
+      }
+      debug('execution paused');
+      this.debugger.suspend(suspension.value, () => this.continueRun(evaluation));
     } catch (e) {
-      this.errorLocation = {
-        lastStatement: this.lastStatement,
-        lastInstruction: this.lastInstruction,
-      };
-      this.handleError(e);
-      throw e;
+      extendDebug(debug, 'error')(`Error during execution`);
+      this.errorLocation = this.getErrorLocation();
+      throw this.realm ? this.realm.toHostError(e) : e;
     }
   }
-  private handleError(e: any) {
-    debug.extend('error')(`Error during execution`);
-    if (this.errorLocation) {
-      const statementSrc = codegen.printSummary(this.errorLocation.lastStatement);
-      const nodeSrc = codegen.printSummary(this.errorLocation.lastInstruction.node);
-      console.log(statementSrc.replace(nodeSrc, `👉👉👉${chalk.red(nodeSrc)}`));
-    } else {
-      console.log('No error location recorded.');
-    }
+  // Errors of the realm's classes leave isolated runs as errors of the host's classes, also when they reject the
+  // promise a run evaluates to, e.g. the one an async function returns.
+  private toHostResult(value: any) {
+    const realm = this.realm;
+    if (!realm || !(value instanceof realm.global.Promise)) return value;
+    return value.then(undefined, (error: any) => {
+      throw realm.toHostError(error);
+    });
+  }
+
+  private getErrorLocation(): ErrorLocation {
+    return {
+      lastStatement: this.lastStatement,
+      lastInstruction: this.lastInstruction,
+      file: this.file || null,
+      nodePosition: this.getPosition(this.lastInstruction.node),
+      statementPosition: this.getPosition(this.lastStatement),
+    };
+  }
+  // Where the node starts in the loaded source, null without source locations.
+  getPosition(node: Node): SourcePosition | null {
+    const location = this.locations && this.locations.get(node);
+    return location ? { line: location.start.line, column: location.start.column } : null;
+  }
+
+  // The frames of the interpreted calls in progress, innermost first. The last frame is the one of the script, or
+  // the code passed to eval, that made the outermost call, unless the call came from host code.
+  getCallStack(): Frame[] {
+    const frames = [this.frame, ...this.callerFrames.slice().reverse()];
+    return frames.filter(frame => frame.node || frame.instructions.length > 0);
+  }
+  // The call stack in the format of the lines that follow the message in V8's Error.stack, with the position of
+  // the node each frame is evaluating.
+  formatCallStack() {
+    return this.getCallStack()
+      .map(frame => {
+        const node = frame.currentNode();
+        const position = node && this.getPosition(node);
+        const file = this.file || '<anonymous>';
+        const location = position ? `${file}:${position.line}:${position.column + 1}` : file;
+        return frame.name ? `    at ${frame.name} (${location})` : `    at ${location}`;
+      })
+      .join('\n');
+  }
+  // Replaces the stack of an error that was created or thrown in interpreted code with the interpreted call
+  // stack. Errors only get a stack once, where they are first created or thrown.
+  setErrorStack(error: object) {
+    if (this.errorStacks.has(error)) return;
+    this.errorStacks.add(error);
+    try {
+      const stack = `${Error.prototype.toString.call(error)}\n${this.formatCallStack()}`;
+      Object.defineProperty(error, 'stack', { value: stack, writable: true, configurable: true });
+    } catch (e) {}
+  }
+
+  // Where the last failed run stopped, its `file:line:column` if the script was loaded with locations and the
+  // statement with the failing node marked, or null if no run failed.
+  formatErrorLocation(): string | null {
+    if (!this.errorLocation) return null;
+    const { file, nodePosition, lastStatement, lastInstruction } = this.errorLocation;
+    const statementSrc = codegen.printSummary(lastStatement);
+    const nodeSrc = codegen.printSummary(lastInstruction.node);
+    const summary = statementSrc.replace(nodeSrc, `👉👉👉${chalk.red(nodeSrc)}`);
+    // columns start at 1 in the file:line:column references editors and terminals understand
+    return nodePosition
+      ? `${file || '<anonymous>'}:${nodePosition.line}:${nodePosition.column + 1}\n${summary}`
+      : summary;
   }
 
   runToFirstError(passedNode?: Script | Statement | Expression) {
+    this.assertNotPaused();
     try {
       return this.run(passedNode);
     } catch (e) {}
   }
-  evaluateInstruction(instruction: Instruction) {
+  *evaluateInstruction(instruction: Instruction): Evaluation {
     this.lastInstruction = instruction;
     const node = instruction.node;
     if (isStatement(node)) this.lastStatement = node;
-    let result = this.handler[node.type](node);
-    return (instruction.result = result);
+    this.countStep();
+    if (this.debugger.shouldPause(instruction, this.frameDepth)) {
+      yield new Suspension(
+        SuspensionType.PAUSE,
+        new PauseLocation(instruction, this.environment, this.frame, this.frameDepth),
+      );
+    }
+    if (this.coverage) this.coverage.record(node);
+    const tracer = this.tracer;
+    const entry = tracer ? tracer.enter(instruction, this.frameDepth, this.locations) : null;
+    if (this.observed[InterpreterEventName.BEFORE_NODE]) {
+      this.emit(InterpreterEventName.BEFORE_NODE, new InterpreterBeforeNodeEvent(instruction));
+    }
+    const handler = this.handler[node.type] as (node: InstructionNode) => any;
+    const frame = this.frame;
+    frame.instructions.push(instruction);
+    try {
+      let result = handler.call(this.handler, node);
+      // handlers that aren't generator functions (e.g. in a custom NodeHandler) are evaluated synchronously
+      if (handler instanceof GeneratorFunction) result = yield* result;
+      instruction.result = result;
+    } catch (e) {
+      if (entry) tracer!.exit(entry, instruction, { thrown: e });
+      if (isError(e) && !(e instanceof InterpreterRuntimeError)) this.setErrorStack(e);
+      if (this.observed[InterpreterEventName.THROW] && !(e instanceof GeneratorReturn)) {
+        if (!this.thrown || this.thrown.error !== e) {
+          this.thrown = { error: e };
+          this.emit(InterpreterEventName.THROW, new InterpreterThrowEvent(node, e));
+        }
+      }
+      throw e;
+    } finally {
+      frame.instructions.pop();
+    }
+    if (entry) tracer!.exit(entry, instruction);
+    if (this.observed[InterpreterEventName.AFTER_NODE]) {
+      this.emit(InterpreterEventName.AFTER_NODE, new InterpreterAfterNodeEvent(instruction));
+    }
+    return instruction.result;
   }
-  evaluate(node: InstructionNode | null): any {
+  // Called when interpreted code catches an error, so that rethrowing it is reported again.
+  catchError() {
+    this.thrown = null;
+  }
+  // Counts a step of the current run and throws once it exceeds options.maxSteps or options.timeout.
+  // Every instruction is a step, and so is every loop iteration so that empty loop bodies are limited too.
+  countStep() {
+    this.steps++;
+    const { maxSteps, timeout } = this.options;
+    let limit: InterpreterLimit | undefined = undefined;
+    let message = '';
+    if (maxSteps !== undefined && this.steps > maxSteps) {
+      limit = InterpreterLimit.STEPS;
+      message = `Exceeded the step limit of ${maxSteps}`;
+    } else if (this.deadline !== undefined && Date.now() > this.deadline) {
+      limit = InterpreterLimit.TIMEOUT;
+      message = `Exceeded the timeout of ${timeout}ms after ${this.steps} steps`;
+    }
+    if (limit) {
+      throw new InterpreterLimitError(message, limit, this.steps, this.getErrorLocation());
+    }
+  }
+  // Returns the evaluation of the instruction rather than delegating to it, which saves a generator per node.
+  evaluateNode(node: InstructionNode | null): Evaluation {
     if (node === null) {
-      return undefined;
+      return emptyEvaluation();
     } else {
-      // yeah this looks weird, it's a remnant of when this was all async. You used
-      // to be able to stop, start, and break the program but the implementation with native JS promises
-      // caused problems. I'm keeping the instruction buffer because hey, maybe it'll come back.
       this.pointer.add(node);
       const instruction = this.pointer.nextInstruction();
       if (!instruction) {
         debug(`no instruction to evaluate, returning`);
-        return;
+        return emptyEvaluation();
       }
-      debug(`evaluating instruction from %o -> %o`, this.lastInstruction.node.type, node.type);
+      if (debug.enabled) debug(`evaluating instruction from %o -> %o`, this.lastInstruction.node.type, node.type);
       return this.evaluateInstruction(instruction);
     }
   }
-  hoistFunctions(block: BlockType) {
+  evaluate(node: InstructionNode | null): any {
+    return this.runEvaluation(this.evaluateNode(node));
+  }
+  // Runs an evaluation to completion, it can only be suspended within a generator or an async function.
+  // Host code waits for these evaluations synchronously so the debugger can't pause them.
+  runEvaluation<T>(evaluation: Evaluation<T>): T {
+    evaluation = this.runCalls(evaluation);
+    let result = evaluation.next();
+    while (!result.done && result.value.type === SuspensionType.PAUSE) result = evaluation.next();
+    if (!result.done) {
+      throw new InterpreterRuntimeError(
+        `Can not suspend execution (${result.value.type}) outside of a generator or async function`,
+      );
+    }
+    return result.value;
+  }
+  // Switches to the context and environment of the passed frame for the duration of the callback,
+  // saving the frame's environment afterward so it can be resumed later.
+  withFrame<T>(frame: Frame, fn: () => T): T {
+    const previous = this.enterFrame(frame);
+    try {
+      return fn();
+    } finally {
+      this.exitFrame(frame, previous);
+    }
+  }
+  private enterFrame(frame: Frame): FrameState {
+    const previous = { environment: this.environment, frame: this.frame };
+    this.pushContext(frame.context);
+    this.environment = frame.environment;
+    this.frame = frame;
+    this.frameDepth++;
+    this.callerFrames.push(previous.frame);
+    return previous;
+  }
+  private exitFrame(frame: Frame, previous: FrameState) {
+    frame.environment = this.environment;
+    this.environment = previous.environment;
+    this.frame = previous.frame;
+    this.frameDepth--;
+    this.callerFrames.pop();
+    this.popContext();
+  }
+  // Evaluates in the passed frame. The caller is suspended with the call until runCalls has evaluated it.
+  *evaluateInFrame<T>(frame: Frame, evaluation: Evaluation<T>): Evaluation<T> {
+    return yield new Suspension(SuspensionType.CALL, { frame, evaluation });
+  }
+  // Drives an evaluation and the calls it makes through evaluateInFrame one after the other instead of nesting
+  // them, so that recursion in interpreted code doesn't grow the host stack. Other suspensions are passed on to
+  // the driver of the evaluation, outside of the frames of the calls in progress, which are entered again when
+  // the evaluation is resumed.
+  *runCalls<T>(evaluation: Evaluation<T>): Evaluation<T> {
+    const calls: { frame: Frame; evaluation: Evaluation; previous: FrameState }[] = [];
+    let value: any = undefined;
+    let throwing = false;
+    while (true) {
+      const current = calls.length > 0 ? calls[calls.length - 1].evaluation : evaluation;
+      let result: IteratorResult<Suspension>;
+      try {
+        result = throwing ? current.throw(value) : current.next(value);
+      } catch (e) {
+        if (calls.length === 0) throw e;
+        const call = calls.pop()!;
+        this.exitFrame(call.frame, call.previous);
+        value = e;
+        throwing = true;
+        continue;
+      }
+      throwing = false;
+      if (result.done) {
+        if (calls.length === 0) return result.value;
+        const call = calls.pop()!;
+        this.exitFrame(call.frame, call.previous);
+        value = result.value;
+        continue;
+      }
+      const suspension = result.value;
+      if (suspension.type === SuspensionType.CALL) {
+        const { frame, evaluation } = suspension.value;
+        calls.push({ frame, evaluation, previous: this.enterFrame(frame) });
+        value = undefined;
+        continue;
+      }
+      for (let i = calls.length - 1; i >= 0; i--) this.exitFrame(calls[i].frame, calls[i].previous);
+      try {
+        value = yield suspension;
+      } catch (e) {
+        value = e;
+        throwing = true;
+      }
+      for (const call of calls) call.previous = this.enterFrame(call.frame);
+    }
+  }
+  // The `this` value of the current frame. Derived class constructors don't have one until they call `super()`.
+  getThisBinding() {
+    let context = this.getCurrentContext();
+    // `super()` may have been called from an arrow function since the frame was entered
+    if (context === uninitializedThis) context = this.frame.getThisFrame().context;
+    if (context === uninitializedThis) {
+      throw new ReferenceError(
+        "Must call super constructor in derived class before accessing 'this' or returning from derived constructor",
+      );
+    }
+    return context;
+  }
+  // The object `super` property lookups start from, the prototype of the current method's home object.
+  getSuperBase() {
+    if (!this.frame.homeObject) throw new InterpreterRuntimeError("'super' keyword unexpected here");
+    return Object.getPrototypeOf(this.frame.homeObject);
+  }
+  // Evaluates a `super(...)` call by constructing the parent class and binding the result as `this`.
+  constructSuper(args: any[]) {
+    // the constructor's frame, also when `super()` is called from an arrow function inside of it
+    const frame = this.frame.getThisFrame();
+    const parent = frame.callee && Object.getPrototypeOf(frame.callee);
+    if (typeof parent !== 'function') {
+      throw new TypeError(`Super constructor ${String(parent)} of anonymous class is not a constructor`);
+    }
+    const result = Reflect.construct(parent, args, frame.newTarget);
+    if (frame.context !== uninitializedThis) throw new ReferenceError('Super constructor may only be called once');
+    frame.context = result;
+    this.contexts[this.contexts.length - 1] = result;
+    return result;
+  }
+  *hoistFunctions(block: BlockType): Evaluation<void> {
     const functions = block.statements.filter(s => s.type === 'FunctionDeclaration');
     if (functions.length) debug(`hoisting %o functions in %o`, functions.length, block.type);
     for (let fnDecl of functions) {
-      this.evaluate(fnDecl);
+      yield* this.evaluateNode(fnDecl);
     }
   }
 
-  hoistVars(block: BlockType) {
+  *hoistVars(block: BlockType): Evaluation<void> {
     const vars = block.statements
       .filter(
         <(T: Statement) => T is VariableDeclarationStatement>(stmt => stmt.type === 'VariableDeclarationStatement'),
@@ -253,20 +894,30 @@ export class Interpreter {
       .filter((decl: VariableDeclarationStatement) => decl.declaration.kind === 'var');
     if (vars.length) debug(`hoisting %o var statements in %o`, vars.length, block.type);
     for (let varDecl of vars) {
-      for (let declarator of varDecl.declaration.declarators) this.bindVariable(declarator.binding, undefined);
+      for (let declarator of varDecl.declaration.declarators) {
+        // patterns are destructured when the declaration runs, their identifiers start out undefined
+        for (const binding of getBindingIdentifiers(declarator.binding)) {
+          // variables that already have a value keep it, e.g. when `eval` declares a global again. The variable
+          // itself is bound even inside of `with` statements.
+          if (!this.isBound(binding)) this.setRuntimeValue(this.lookupTable.variableMap.get(binding)[0], undefined);
+        }
+      }
     }
   }
 
-  declareVariables(decl: VariableDeclaration) {
+  *declareVariables(decl: VariableDeclaration): Evaluation<void> {
     for (let declarator of decl.declarators) {
-      this.evaluate(declarator);
+      // `var a;` leaves the hoisted variable as it is
+      if (decl.kind === 'var' && !declarator.init) continue;
+      yield* this.evaluateNode(declarator);
     }
   }
 
-  createFunction(node: FuncType) {
-    const _debug = debug.extend('createFunction');
-    let name: string | undefined = undefined;
-    if (node.name) {
+  // Computed property names are evaluated here unless the caller already evaluated them and passes the key.
+  createFunction(node: FuncType, homeObject: object | null = null, key?: PropertyKey) {
+    const _debug = extendDebug(debug, 'createFunction');
+    let name: PropertyKey | undefined = key;
+    if (name === undefined && node.name) {
       switch (node.name.type) {
         case 'BindingIdentifier':
           name = node.name.name;
@@ -282,64 +933,176 @@ export class Interpreter {
     _debug(`creating intermediary %o: %o`, node.type, name);
 
     const interpreter = this;
+    const closure = this.environment;
+    const isGenerator = node.type !== 'Getter' && node.type !== 'Setter' && node.isGenerator;
+    const isAsync = node.type !== 'Getter' && node.type !== 'Setter' && node.isAsync;
 
-    const fnDebug = debug.extend('function');
+    const fnDebug = extendDebug(debug, 'function');
     let fn: (this: any, ...args: any) => any;
 
     // anonymous functions have an empty string as the name
     if (!name) name = '';
+    // functions with a symbol key are named after its description, like `[Symbol.iterator]`
+    const fnName = typeof name === 'symbol' ? (name.description ? `[${name.description}]` : '') : String(name);
 
     // creating a function like this, i.e. { someName: function(){} )
     // allows us to create a named function by inferring the name from the property value.
+    const createFrame = (thisArg: any, newTarget?: Function) => {
+      const frame = new Frame(thisArg, new Environment(node, closure)).setCall(node, fnName, interpreter.frame);
+      frame.callee = fn;
+      frame.homeObject = homeObject;
+      frame.newTarget = newTarget;
+      return frame;
+    };
+
+    const call = function*(thisArg: any, argumentsObject: IArguments, newTarget?: Function): Evaluation {
+      return yield* interpreter.evaluateInFrame(
+        createFrame(thisArg, newTarget),
+        (function*() {
+          yield* interpreter.bindParameters(node, fn, argumentsObject);
+          fnDebug('evaluating function body');
+          return yield* interpreter.evaluateFunctionBody(node);
+        })(),
+      );
+    };
+
     fn = {
-      [name]: function(this: any, ...args: any): any {
-        fnDebug(`calling intermediary %o: %o`, node.type, name);
-        interpreter.pushContext(this);
-        const scope = interpreter.scopeOwnerMap.get(node);
-        if (scope) {
-          const argsRef = scope.variables.get('arguments');
-          if (argsRef) interpreter.setRuntimeValue(argsRef, arguments);
+      [fnName]: function(this: any, ...args: any): any {
+        fnDebug(`calling intermediary %o: %o`, node.type, fnName);
+        if (new.target && (isGenerator || isAsync)) throw new TypeError(`${fnName} is not a constructor`);
+        const frame = createFrame(this, new.target);
+        const argumentsObject = interpreter.adopt(arguments);
+
+        if (isGenerator) {
+          // parameters are bound when the generator function is called, the body when the generator is first resumed
+          interpreter.withFrame(frame, () =>
+            interpreter.runEvaluation(interpreter.bindParameters(node, fn, argumentsObject)),
+          );
+          const body = interpreter.evaluateFunctionBody(node);
+          if (isAsync) return createAsyncGenerator(interpreter, fn.prototype, body, frame);
+          return createGenerator(interpreter, fn.prototype, body, frame);
         }
 
-        if (node.type === 'Getter') {
-          // nothing
-        } else if (node.type === 'Setter') {
-          fnDebug(`setter: binding passed parameter`);
-          interpreter.bindVariable(node.param, args[0]);
-        } else {
-          node.params.items.forEach(
-            (el: ArrayBinding | BindingIdentifier | BindingWithDefault | ObjectBinding, i: number) => {
-              fnDebug(`binding function argument %o`, i + 1);
-              return interpreter.bindVariable(el, args[i]);
-            },
+        if (isAsync) {
+          return interpreter.adopt(
+            runAsyncFunction(
+              interpreter,
+              (function*() {
+                yield* interpreter.bindParameters(node, fn, argumentsObject);
+                return yield* interpreter.evaluateFunctionBody(node);
+              })(),
+              frame,
+            ),
           );
         }
-        fnDebug('evaluating function body');
-        const result = interpreter.evaluate(node.body);
-        fnDebug('completed evaluating function body');
 
-        interpreter.popContext();
+        const result = interpreter.runEvaluation(call(this, argumentsObject, new.target));
+        fnDebug('completed evaluating function body');
 
         if (new.target) {
-          if (interpreter.isReturning()) {
-            interpreter.isReturning(false);
-            if (typeof result === 'object') return result;
-          }
+          if (typeof result === 'object' && result !== null) return result;
           return this;
         } else {
-          if (interpreter.isReturning()) {
-            interpreter.isReturning(false);
-          }
           return result;
         }
       },
+    }[fnName];
+
+    if (isGenerator) fn.prototype = Object.create(isAsync ? this.asyncGeneratorPrototype : this.generatorPrototype);
+    else if (!isAsync) {
+      this.interpretedCalls.set(fn, (thisArg, args) => call(thisArg, this.adopt(createArgumentsObject(args))));
+    }
+    this.adopt(fn.prototype);
+
+    return Object.assign(this.adopt(fn), { _interp: true });
+  }
+
+  // Creates the constructor of a class. Derived classes start without a `this` binding, their
+  // constructor initializes it with `super()`, which constructs the parent class.
+  createClassConstructor(name: string, node: Method | null, derived: boolean, prototype: object) {
+    const interpreter = this;
+    const closure = this.environment;
+
+    const Class = {
+      [name]: function(this: any, ...args: any): any {
+        if (!new.target) throw new TypeError(`Class constructor ${name} cannot be invoked without 'new'`);
+        if (!node) {
+          if (derived) return Reflect.construct(Object.getPrototypeOf(Class), args, new.target);
+          return this;
+        }
+        const frame = new Frame(derived ? uninitializedThis : this, new Environment(node, closure)).setCall(
+          node,
+          name,
+          interpreter.frame,
+        );
+        frame.callee = Class;
+        frame.homeObject = prototype;
+        frame.newTarget = new.target;
+        const argumentsObject = interpreter.adopt(arguments);
+
+        const result = interpreter.withFrame(frame, () =>
+          interpreter.runEvaluation(
+            (function*() {
+              yield* interpreter.bindParameters(node, Class, argumentsObject);
+              return yield* interpreter.evaluateFunctionBody(node);
+            })(),
+          ),
+        );
+
+        if ((typeof result === 'object' && result !== null) || typeof result === 'function') return result;
+        if (!derived) return this;
+        if (result !== undefined) throw new TypeError('Derived constructors may only return object or undefined');
+        return interpreter.withFrame(frame, () => interpreter.getThisBinding());
+      },
     }[name];
 
-    return Object.assign(fn, { _interp: true });
+    // kept out of the way of static members, e.g. Object.keys(Class)
+    return Object.defineProperty(Class, '_interp', { value: true });
   }
 
-  bindVariable(binding: BindingIdentifier | ArrayBinding | ObjectBinding | BindingWithDefault, init: any) {
-    const _debug = debug.extend('bindVariable');
+  *bindParameters(node: FuncType, fn: Function, args: IArguments): Evaluation<void> {
+    const fnDebug = extendDebug(debug, 'function');
+    const scope = this.scopeOwnerMap.get(node);
+    if (scope) {
+      const argsRef = scope.variables.get('arguments');
+      if (argsRef) this.setRuntimeValue(argsRef, args);
+    }
+    if (node.type === 'FunctionExpression' && node.name) yield* this.bindVariable(node.name, fn);
+
+    if (node.type === 'Getter') {
+      // nothing
+    } else if (node.type === 'Setter') {
+      fnDebug(`setter: binding passed parameter`);
+      yield* this.bindVariable(node.param, args[0]);
+    } else {
+      for (let i = 0; i < node.params.items.length; i++) {
+        fnDebug(`binding function argument %o`, i + 1);
+        yield* this.bindVariable(node.params.items[i], args[i]);
+      }
+      if (node.params.rest) {
+        fnDebug(`binding rest parameter`);
+        const rest = this.adopt(Array.prototype.slice.call(args, node.params.items.length));
+        yield* this.bindVariable(node.params.rest, rest);
+      }
+    }
+  }
+
+  *evaluateFunctionBody(node: FuncType | ArrowExpression): Evaluation {
+    yield* this.evaluateNode(node.body);
+    return this.consumeReturnValue();
+  }
+
+  // Returns the value of a return completion and resets the completion record, used when a function body completes.
+  consumeReturnValue() {
+    const completion = this.completion;
+    this.complete();
+    return completion.type === CompletionType.RETURN ? completion.value : undefined;
+  }
+
+  // Binds declarations and parameters, and also assigns to the targets of destructuring assignments
+  // so that both go through the same destructuring logic.
+  *bindVariable(binding: BindingTarget, init: any): Evaluation<void> {
+    const _debug = extendDebug(debug, 'bindVariable');
     switch (binding.type) {
       case 'BindingIdentifier':
         {
@@ -348,47 +1111,120 @@ export class Interpreter {
           if (variables.length > 1) throw new Error('reproduce this and handle it better');
           const variable = variables[0];
           _debug(`binding %o to %o`, binding.name, init);
-          this.setRuntimeValue(variable, init);
+          // `var a = 1` inside of `with (object)` assigns to `object.a` if it has one
+          const object = this.getWithObject(binding, variable);
+          if (object) this.setProperty(object, binding.name, init, binding);
+          else this.setRuntimeValue(variable, init);
         }
         break;
+      case 'AssignmentTargetIdentifier':
+        _debug(`assigning %o to %o`, binding.name, init);
+        this.updateVariableValue(binding, init);
+        break;
+      case 'StaticMemberAssignmentTarget': {
+        const object = yield* this.evaluateNode(binding.object);
+        this.setProperty(object, binding.property, init, binding);
+        break;
+      }
+      case 'ComputedMemberAssignmentTarget': {
+        const object = yield* this.evaluateNode(binding.object);
+        const property = yield* this.evaluateNode(binding.expression);
+        this.setProperty(object, property, init, binding);
+        break;
+      }
       case 'ArrayBinding':
+      case 'ArrayAssignmentTarget':
         {
-          for (let i = 0; i < binding.elements.length; i++) {
-            const el = binding.elements[i];
-            const indexElement = init[i];
-            if (el) this.bindVariable(el, indexElement);
+          const iterator = getIterator(init);
+          // true once the iterator is exhausted or has thrown, otherwise it's closed when destructuring ends
+          let done = false;
+          const step = () => {
+            done = true;
+            const result = iterator.next();
+            done = !!result.done;
+            return result;
+          };
+          try {
+            for (let i = 0; i < binding.elements.length; i++) {
+              const el = binding.elements[i];
+              const indexElement = done ? undefined : this.fromHost(step().value);
+              if (el) yield* this.bindVariable(el, indexElement);
+            }
+            if (binding.rest) {
+              const rest = [];
+              while (!done) {
+                const result = step();
+                if (!done) rest.push(this.fromHost(result.value));
+              }
+              yield* this.bindVariable(binding.rest, rest);
+            }
+          } catch (e) {
+            if (!done) {
+              try {
+                closeIterator(iterator);
+              } catch {
+                // the original error takes precedence
+              }
+            }
+            throw e;
           }
-          if (binding.rest) this.skipOrThrow('ArrayBinding->Rest/Spread');
+          if (!done) closeIterator(iterator);
         }
         break;
       case 'ObjectBinding':
+      case 'ObjectAssignmentTarget':
         {
+          if (init === null || init === undefined) {
+            const first = binding.properties[0];
+            let name = null;
+            if (
+              first &&
+              (first.type === 'BindingPropertyIdentifier' || first.type === 'AssignmentTargetPropertyIdentifier')
+            ) {
+              name = first.binding.name;
+            } else if (first && first.name.type === 'StaticPropertyName') {
+              name = first.name.value;
+            }
+            const property = name === null ? '' : `property '${name}' of `;
+            throw new TypeError(`Cannot destructure ${property}'${init}' as it is ${init}.`);
+          }
+          const usedKeys: PropertyKey[] = [];
           for (let i = 0; i < binding.properties.length; i++) {
             const prop = binding.properties[i];
-            if (prop.type === 'BindingPropertyIdentifier') {
+            if (prop.type === 'BindingPropertyIdentifier' || prop.type === 'AssignmentTargetPropertyIdentifier') {
               const name = prop.binding.name;
-              if (init[name] === undefined && prop.init) {
-                this.bindVariable(prop.binding, this.evaluate(prop.init));
+              usedKeys.push(name);
+              const value = this.getProperty(init, name, prop);
+              if (value === undefined && prop.init) {
+                yield* this.bindVariable(prop.binding, yield* this.evaluateNode(prop.init));
               } else {
-                this.bindVariable(prop.binding, init[name]);
+                yield* this.bindVariable(prop.binding, value);
               }
             } else {
               const name =
-                prop.name.type === 'ComputedPropertyName' ? this.evaluate(prop.name.expression) : prop.name.value;
-              this.bindVariable(prop.binding, init[name]);
+                prop.name.type === 'ComputedPropertyName'
+                  ? yield* this.evaluateNode(prop.name.expression)
+                  : prop.name.value;
+              usedKeys.push(typeof name === 'symbol' ? name : String(name));
+              yield* this.bindVariable(prop.binding, this.getProperty(init, name, prop));
             }
           }
-          if (binding.rest) this.skipOrThrow('ObjectBinding->Rest/Spread');
+          if (binding.rest) {
+            const rest = this.adopt(Object.assign({}, init));
+            usedKeys.forEach(key => delete rest[key]);
+            yield* this.bindVariable(binding.rest, rest);
+          }
         }
         break;
       case 'BindingWithDefault':
+      case 'AssignmentTargetWithDefault':
         if (init === undefined) {
           _debug(`evaluating default for undefined argument`);
-          const defaults = this.evaluate(binding.init);
+          const defaults = yield* this.evaluateNode(binding.init);
           _debug(`binding default`);
-          this.bindVariable(binding.binding, defaults);
+          yield* this.bindVariable(binding.binding, defaults);
         } else {
-          this.bindVariable(binding.binding, init);
+          yield* this.bindVariable(binding.binding, init);
         }
         break;
     }
@@ -397,17 +1233,60 @@ export class Interpreter {
     const variables = this.lookupTable.variableMap.get(node);
 
     if (variables.length > 1) throw new Error('reproduce this and handle it better');
-    const variable = variables[0];
+    const variable = this.getEvalVariable(node, variables[0]);
+    const object = this.getWithObject(node, variable);
+    if (object) return this.setProperty(object, node.name, value, node);
     const decl = variable.declarations[0];
     if (decl && decl.type.name === 'Const') throw new TypeError('Assignment to constant variable.');
     this.setRuntimeValue(variable, value);
     return value;
   }
+  // The object of the innermost `with` statement between the current environment and the one of the identifier's
+  // variable that has a property for the identifier, if there is one.
+  getWithObject(
+    node: Identifier,
+    variable: Variable = this.getEvalVariable(node, this.lookupTable.variableMap.get(node)[0]),
+  ) {
+    if (!this.withReferences.has(node)) return;
+    const scope = this.scopeMap.get(variable);
+    for (let env: Environment | null = this.environment; env; env = env.parent) {
+      if (scope && env.node === scope.astNode) return;
+      if (env.object && hasWithBinding(env.object, node.name)) return env.object;
+    }
+  }
+  // The variable a direct `eval` declared for the identifier in a function between the current environment and
+  // the one of the variable it was resolved to before, if there is one, otherwise that variable.
+  getEvalVariable(node: Identifier, variable: Variable) {
+    if (!this.evalReferences.has(node)) return variable;
+    const scope = this.scopeMap.get(variable);
+    for (let env: Environment | null = this.environment; env; env = env.parent) {
+      if (scope && env.node === scope.astNode) break;
+      const declared = env.evalVariables && env.evalVariables.get(variable.name);
+      if (declared) return declared;
+    }
+    return variable;
+  }
+  private isBound(node: BindingIdentifier) {
+    const variables = this.lookupTable.variableMap.get(node);
+    if (!variables || variables.length !== 1) return false;
+    const env = this.getEnvironment(variables[0]);
+    return !!env && env.bindings.has(variables[0]);
+  }
+  getEnvironment(variable: Variable): Environment | undefined {
+    const scope = this.scopeMap.get(variable);
+    if (!scope) return;
+    return this.environment.lookup(scope.astNode);
+  }
   setRuntimeValue(variable: Variable, value: any) {
+    const env = this.getEnvironment(variable);
+    if (env) env.bindings.set(variable, value);
     this.variableMap.set(variable, value);
+    if (this.observed[InterpreterEventName.VARIABLE_WRITE]) {
+      this.emit(InterpreterEventName.VARIABLE_WRITE, new InterpreterVariableWriteEvent(variable, value));
+    }
   }
   getRuntimeValue(node: Identifier): any {
-    const _debug = debug.extend('getVariableValue');
+    const _debug = extendDebug(debug, 'getVariableValue');
     _debug(`retrieving value for ${node.name}`);
     const variables = this.lookupTable.variableMap.get(node);
 
@@ -419,9 +1298,67 @@ export class Interpreter {
       _debug(`>1 variable returned, ${variables}`);
       throw new Error('reproduce this and handle it better');
     }
-    const variable = variables[0];
-
-    if (this.variableMap.has(variable)) {
+    const variable = this.getEvalVariable(node, variables[0]);
+    const object = this.getWithObject(node, variable);
+    if (object) return this.getProperty(object, node.name, node);
+    const value = this.getVariableValue(variable);
+    if (this.observed[InterpreterEventName.VARIABLE_READ]) {
+      this.emit(InterpreterEventName.VARIABLE_READ, new InterpreterVariableReadEvent(node, variable, value));
+    }
+    return value;
+  }
+  // Objects the interpreter creates for interpreted code go through this to use the fresh built-ins in isolated mode.
+  adopt<T>(value: T): T {
+    return this.realm ? this.realm.adopt(value) : value;
+  }
+  // Values host functions return to interpreted code go through this to swap host built-ins for
+  // the fresh ones in isolated mode, and `eval` and `Function` for the versions that interpret their source.
+  fromHost(value: any) {
+    if (this.realm) value = this.realm.toFresh(value);
+    return this.toDynamicCode(value);
+  }
+  // Swaps the host's and the realm's `eval` and `Function` for the versions that interpret their source. Calls
+  // go through this too, for the functions that reach interpreted code without passing fromHost, e.g. as the
+  // elements of an array a host function returns.
+  toDynamicCode(value: any) {
+    return typeof value === 'function' && this.dynamicCode.has(value) ? this.dynamicCode.get(value) : value;
+  }
+  // Property access of interpreted code goes through these to be reported to listeners. Reads of `super`
+  // properties pass `this` as the receiver for getters.
+  getProperty(object: any, property: PropertyKey, node: Node, receiver: any = object) {
+    let value;
+    if (
+      this.realm &&
+      object !== null &&
+      typeof object !== 'object' &&
+      typeof object !== 'function' &&
+      object !== undefined
+    )
+      value = this.fromHost(this.realm.getPrimitiveProperty(object, property));
+    else value = this.fromHost(receiver === object ? object[property] : Reflect.get(object, property, receiver));
+    if (this.observed[InterpreterEventName.PROPERTY_GET]) {
+      this.emit(InterpreterEventName.PROPERTY_GET, new InterpreterPropertyEvent(node, object, property, value));
+    }
+    return value;
+  }
+  setProperty(object: any, property: PropertyKey, value: any, node: Node) {
+    object[property] = value;
+    if (this.observed[InterpreterEventName.PROPERTY_SET]) {
+      this.emit(InterpreterEventName.PROPERTY_SET, new InterpreterPropertyEvent(node, object, property, value));
+    }
+    return value;
+  }
+  getVariableValue(variable: Variable): any {
+    const env = this.getEnvironment(variable);
+    if (env && env.bindings.has(variable)) {
+      return env.bindings.get(variable);
+    } else if (env && env !== this.globalEnvironment) {
+      // the variable's environment is active but the variable hasn't been initialized yet
+      const decl = variable.declarations[0];
+      if (decl && decl.type.isBlockScoped)
+        throw new ReferenceError(`Cannot access '${variable.name}' before initialization`);
+      return undefined;
+    } else if (!env && this.variableMap.has(variable)) {
       const value = this.variableMap.get(variable);
       return value;
     } else {
@@ -432,11 +1369,10 @@ export class Interpreter {
           throw new Error('No context to evaluate in.');
         }
         if (variable.name in context) {
-          const value = context[variable.name];
-          return value;
+          return this.fromHost(context[variable.name]);
         }
       }
-      throw new ReferenceError(`${node.name} is not defined`);
+      throw new ReferenceError(`${variable.name} is not defined`);
     }
   }
 }
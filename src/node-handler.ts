@@ -3,17 +3,25 @@ import {
   ArrayExpression,
   ArrowExpression,
   AssignmentExpression,
+  AwaitExpression,
   BinaryExpression,
   Block,
   BlockStatement,
+  BreakStatement,
   CallExpression,
+  CatchClause,
   ClassDeclaration,
+  ClassExpression,
   CompoundAssignmentExpression,
   ComputedMemberExpression,
+  ComputedPropertyName,
   ConditionalExpression,
+  ContinueStatement,
   DoWhileStatement,
+  Expression,
   ExpressionStatement,
   ForInStatement,
+  ForAwaitStatement,
   ForOfStatement,
   ForStatement,
   FunctionBody,
@@ -21,17 +29,26 @@ import {
   FunctionExpression,
   IdentifierExpression,
   IfStatement,
+  LabeledStatement,
   LiteralBooleanExpression,
   LiteralInfinityExpression,
   LiteralNullExpression,
   LiteralNumericExpression,
   LiteralRegExpExpression,
   LiteralStringExpression,
+  Method,
   NewExpression,
+  Node,
   ObjectExpression,
   ReturnStatement,
   Script,
+  Statement,
   StaticMemberExpression,
+  StaticPropertyName,
+  SwitchCase,
+  SwitchDefault,
+  SwitchStatement,
+  SwitchStatementWithDefault,
   TemplateExpression,
   ThisExpression,
   ThrowStatement,
@@ -42,12 +59,30 @@ import {
   VariableDeclarationStatement,
   VariableDeclarator,
   WhileStatement,
+  WithStatement,
+  YieldExpression,
+  YieldGeneratorExpression,
 } from 'shift-ast';
-import { BasicContext } from './context';
-import { InterpreterRuntimeError } from './errors';
+import { getAsyncIterator, runAsyncFunction } from './async';
+import { CompletionType } from './completion';
+import { Environment } from './environment';
+import { InterpreterCallEvent, InterpreterEventName, InterpreterReturnEvent } from './events';
+import { InterpreterLimitError, InterpreterRuntimeError } from './errors';
+import { Frame, uninitializedThis } from './frame';
+import { GeneratorReturn } from './generator';
 import { Interpreter } from './interpreter';
 import { binaryOperatorMap, compoundAssignmentOperatorMap, unaryOperatorMap } from './operators';
-import { toString } from './util';
+import { Suspension, SuspensionType } from './suspension';
+import { Loop } from './types';
+import {
+  closeIterator,
+  cookTemplateValue,
+  extendDebug,
+  getIterator,
+  isError,
+  normalizeTemplateValue,
+  toString,
+} from './util';
 import { Variable } from 'shift-scope';
 
 export interface DynamicClass {
@@ -58,209 +93,216 @@ const debug = DEBUG('shift:interpreter:node-handler');
 
 export class NodeHandler {
   interpreter: Interpreter;
+  // the labels that apply to each labeled statement's body
+  labelSets = new WeakMap<Node, string[]>();
+  // the strings passed to the tag of each tagged template
+  private templateObjects = new WeakMap<TemplateExpression, readonly (string | undefined)[]>();
 
   constructor(interpreter: Interpreter) {
     this.interpreter = interpreter;
   }
 
-  ReturnStatement(stmt: ReturnStatement) {
-    const value = this.interpreter.evaluate(stmt.expression);
-    this.interpreter.isReturning(true);
+  *ReturnStatement(stmt: ReturnStatement) {
+    const value = yield* this.interpreter.evaluateNode(stmt.expression);
+    this.interpreter.complete(CompletionType.RETURN, value);
     return value;
   }
 
-  ExpressionStatement(stmt: ExpressionStatement) {
-    return this.interpreter.evaluate(stmt.expression);
+  *ExpressionStatement(stmt: ExpressionStatement) {
+    return yield* this.interpreter.evaluateNode(stmt.expression);
   }
-  VariableDeclarationStatement(stmt: VariableDeclarationStatement) {
-    return this.interpreter.declareVariables(stmt.declaration);
+  *VariableDeclarationStatement(stmt: VariableDeclarationStatement) {
+    return yield* this.interpreter.declareVariables(stmt.declaration);
   }
 
-  VariableDeclarator(declarator: VariableDeclarator) {
-    const value = this.interpreter.evaluate(declarator.init);
-    return this.interpreter.bindVariable(declarator.binding, value);
+  *VariableDeclarator(declarator: VariableDeclarator) {
+    const value = yield* this.interpreter.evaluateNode(declarator.init);
+    return yield* this.interpreter.bindVariable(declarator.binding, value);
   }
 
   FunctionDeclaration(decl: FunctionDeclaration) {
     const fn = this.interpreter.createFunction(decl);
 
     const variables = this.interpreter.lookupTable.variableMap.get(decl.name);
-    variables.forEach((variable: Variable) => this.interpreter.variableMap.set(variable, fn));
+    variables.forEach((variable: Variable) => this.interpreter.setRuntimeValue(variable, fn));
   }
 
-  BlockStatement(stmt: BlockStatement) {
-    return this.interpreter.evaluate(stmt.block);
+  *BlockStatement(stmt: BlockStatement) {
+    return yield* this.interpreter.evaluateNode(stmt.block);
   }
 
-  ClassDeclaration(decl: ClassDeclaration) {
-    const staticMethods: [string, Function][] = [];
-    const methods: [string, Function][] = [];
-    let constructor: null | Function = null;
+  *ClassDeclaration(decl: ClassDeclaration) {
+    return yield* this.classDefinition(decl);
+  }
 
-    if (decl.elements.length > 0) {
-      for (let el of decl.elements) {
-        if (el.method.type === 'Method') {
-          const intermediateFunction = this.interpreter.createFunction(el.method);
-          if (el.isStatic) {
-            staticMethods.push([intermediateFunction.name!, intermediateFunction]);
-          } else {
-            if (intermediateFunction.name === 'constructor') constructor = intermediateFunction;
-            else methods.push([intermediateFunction.name!, intermediateFunction]);
-          }
+  // Creates the class of a declaration or expression and binds its name, both the inner binding
+  // visible to the class body and, for declarations, the outer one.
+  *classDefinition(node: ClassDeclaration | ClassExpression) {
+    const previousEnvironment = this.interpreter.enterEnvironment(node);
+    try {
+      let protoParent: object | null = Object.prototype;
+      let constructorParent: object = Function.prototype;
+      if (node.super) {
+        const superClass = yield* this.interpreter.evaluateNode(node.super);
+        if (superClass === null) {
+          protoParent = null;
+        } else if (typeof superClass !== 'function') {
+          throw new TypeError(`Class extends value ${String(superClass)} is not a constructor or null`);
         } else {
-          this.interpreter.skipOrThrow(`ClassElement type ${el.method.type}`);
+          protoParent = superClass.prototype;
+          constructorParent = superClass;
         }
       }
-    }
-
-    let Class: DynamicClass = class {};
-
-    if (decl.super) {
-      const xtends = this.interpreter.evaluate(decl.super);
-      Class = ((SuperClass: any = xtends) => {
-        if (constructor === null) {
-          class InterpreterClassWithExtendsA extends SuperClass {
-            constructor(...args: any) {
-              super(...args);
-            }
-          }
 
-          return InterpreterClassWithExtendsA;
-        } else {
-          class InterpreterClassWithExtendsB extends SuperClass {
-            constructor(...args: any) {
-              super(...args);
-              constructor!(args, this);
-            }
-          }
-
-          return InterpreterClassWithExtendsB;
+      const prototype: DynamicClass = this.interpreter.adopt(Object.create(protoParent));
+      const constructorElement = node.elements.find(
+        el =>
+          !el.isStatic &&
+          el.method.type === 'Method' &&
+          el.method.name.type === 'StaticPropertyName' &&
+          el.method.name.value === 'constructor',
+      );
+      const Class: DynamicClass = this.interpreter.createClassConstructor(
+        node.name ? node.name.name : '',
+        constructorElement ? (constructorElement.method as Method) : null,
+        node.super !== null,
+        prototype,
+      );
+      Object.setPrototypeOf(Class, constructorParent);
+      this.interpreter.adopt(Class);
+      Object.defineProperty(Class, 'prototype', { value: prototype, writable: false });
+      Object.defineProperty(prototype, 'constructor', { value: Class, writable: true, configurable: true });
+
+      for (let el of node.elements) {
+        if (el === constructorElement) continue;
+        const home = el.isStatic ? Class : prototype;
+        const key = yield* this.propertyKey(el.method.name);
+        const intermediateFunction = this.interpreter.createFunction(el.method, home, key);
+        // class members are not enumerable, accessors merge with the other half of the pair if it exists
+        switch (el.method.type) {
+          case 'Method':
+            Object.defineProperty(home, key, { value: intermediateFunction, writable: true, configurable: true });
+            break;
+          case 'Getter':
+            Object.defineProperty(home, key, { get: intermediateFunction, enumerable: false, configurable: true });
+            break;
+          case 'Setter':
+            Object.defineProperty(home, key, { set: intermediateFunction, enumerable: false, configurable: true });
+            break;
         }
-      })();
-    } else {
-      Class = (() => {
-        if (constructor === null) {
-          class InterpreterClassA {
-            constructor() {}
-          }
+      }
 
-          return InterpreterClassA;
-        } else {
-          class InterpreterClassB {
-            constructor(...args: any) {
-              constructor!(args, this);
-            }
-          }
+      if (node.name) {
+        const variables = this.interpreter.lookupTable.variableMap.get(node.name);
+        variables.forEach((variable: Variable) => this.interpreter.setRuntimeValue(variable, Class));
+      }
 
-          return InterpreterClassB;
-        }
-      })();
+      return Class;
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
     }
+  }
 
-    methods.forEach(([name, intermediateFunction]) => {
-      Class.prototype[name] = intermediateFunction;
-    });
-
-    staticMethods.forEach(([name, intermediateFunction]) => {
-      Class[name] = intermediateFunction;
-    });
-
-    const variables = this.interpreter.lookupTable.variableMap.get(decl.name);
-
-    variables.forEach((variable: any) => this.interpreter.variableMap.set(variable, Class));
-
-    return Class;
+  // Evaluates the key of a method or property definition, computed keys are converted like ToPropertyKey.
+  *propertyKey(name: ComputedPropertyName | StaticPropertyName) {
+    if (name.type === 'StaticPropertyName') return name.value;
+    const key = yield* this.interpreter.evaluateNode(name.expression);
+    return typeof key === 'symbol' ? key : String(key);
   }
 
-  IfStatement(stmt: IfStatement) {
-    const test = this.interpreter.evaluate(stmt.test);
-    if (test) return this.interpreter.evaluate(stmt.consequent);
-    else if (stmt.alternate) return this.interpreter.evaluate(stmt.alternate);
+  *IfStatement(stmt: IfStatement) {
+    const test = yield* this.interpreter.evaluateNode(stmt.test);
+    if (test) return yield* this.interpreter.evaluateNode(stmt.consequent);
+    else if (stmt.alternate) return yield* this.interpreter.evaluateNode(stmt.alternate);
   }
 
-  ConditionalExpression(stmt: ConditionalExpression) {
-    const test = this.interpreter.evaluate(stmt.test);
-    if (test) return this.interpreter.evaluate(stmt.consequent);
-    else if (stmt.alternate) return this.interpreter.evaluate(stmt.alternate);
+  *ConditionalExpression(stmt: ConditionalExpression) {
+    const test = yield* this.interpreter.evaluateNode(stmt.test);
+    if (test) return yield* this.interpreter.evaluateNode(stmt.consequent);
+    else if (stmt.alternate) return yield* this.interpreter.evaluateNode(stmt.alternate);
   }
 
-  ThrowStatement(stmt: ThrowStatement) {
-    const error = this.interpreter.evaluate(stmt.expression);
+  *ThrowStatement(stmt: ThrowStatement) {
+    const error = yield* this.interpreter.evaluateNode(stmt.expression);
     throw error;
   }
 
-  TryCatchStatement(stmt: TryCatchStatement) {
+  *TryCatchStatement(stmt: TryCatchStatement) {
+    return yield* this.tryCatch(stmt.body, stmt.catchClause);
+  }
+
+  *TryFinallyStatement(stmt: TryFinallyStatement) {
     let returnValue = undefined;
     try {
-      returnValue = this.interpreter.evaluate(stmt.body);
-    } catch (e) {
-      this.interpreter.bindVariable(stmt.catchClause.binding, e);
-      try {
-        returnValue = this.interpreter.evaluate(stmt.catchClause.body);
-      } catch (e) {
-        throw e;
-      }
+      if (stmt.catchClause) returnValue = yield* this.tryCatch(stmt.body, stmt.catchClause);
+      else returnValue = yield* this.interpreter.evaluateNode(stmt.body);
+    } finally {
+      const completion = this.interpreter.completion;
+      this.interpreter.complete();
+      yield* this.interpreter.evaluateNode(stmt.finalizer);
+      // an abrupt completion in the finalizer overrides the completion (or thrown error) of the try block
+      if (this.interpreter.isAbrupt()) return;
+      this.interpreter.completion = completion;
     }
     return returnValue;
   }
 
-  TryFinallyStatement(stmt: TryFinallyStatement) {
-    let returnValue = undefined;
-    if (stmt.catchClause) {
-      try {
-        returnValue = this.interpreter.evaluate(stmt.body);
-      } catch (e) {
-        this.interpreter.bindVariable(stmt.catchClause.binding, e);
-        try {
-          returnValue = this.interpreter.evaluate(stmt.catchClause.body);
-        } catch (e) {
-          throw e;
-        }
-      } finally {
-        returnValue = this.interpreter.evaluate(stmt.finalizer);
-      }
-    } else {
+  *tryCatch(body: Block, catchClause: CatchClause) {
+    try {
+      return yield* this.interpreter.evaluateNode(body);
+    } catch (e) {
+      if (e instanceof GeneratorReturn || e instanceof InterpreterLimitError) throw e;
+      this.interpreter.catchError();
+      const previousEnvironment = this.interpreter.enterEnvironment(catchClause);
       try {
-        returnValue = this.interpreter.evaluate(stmt.body);
+        yield* this.interpreter.bindVariable(catchClause.binding, this.interpreter.adopt(e));
+        return yield* this.interpreter.evaluateNode(catchClause.body);
       } finally {
-        returnValue = this.interpreter.evaluate(stmt.finalizer);
+        this.interpreter.exitEnvironment(previousEnvironment);
       }
     }
-    return returnValue;
   }
 
-  Block(block: Block) {
+  *Block(block: Block) {
     let value;
-    const _debug = debug.extend('Block');
-
-    this.interpreter.hoistFunctions(block);
-    this.interpreter.hoistVars(block);
-    const statements = block.statements.filter(stmt => stmt.type !== 'FunctionDeclaration');
+    const _debug = extendDebug(debug, 'Block');
 
-    for (let i = 0; i < statements.length; i++) {
-      const statement = statements[i];
-      _debug(`Evaluating next ${statement.type} in ${block.type}`);
-      value = this.interpreter.evaluate(statement);
-      _debug(`${block.type} statement ${statement.type} completed`);
+    const previousEnvironment = this.interpreter.enterEnvironment(block);
+    try {
+      yield* this.interpreter.hoistFunctions(block);
+      yield* this.interpreter.hoistVars(block);
+      const statements = block.statements.filter(stmt => stmt.type !== 'FunctionDeclaration');
+
+      for (let i = 0; i < statements.length; i++) {
+        const statement = statements[i];
+        _debug(`Evaluating next ${statement.type} in ${block.type}`);
+        value = yield* this.interpreter.evaluateNode(statement);
+        _debug(`${block.type} statement ${statement.type} completed`);
+        if (this.interpreter.isAbrupt()) {
+          break;
+        }
+      }
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
     }
     _debug(`completed ${block.type}, returning with: ${value}`);
     return value;
   }
 
-  FunctionBody(body: FunctionBody) {
+  *FunctionBody(body: FunctionBody) {
     let value;
-    const _debug = debug.extend(body.type);
+    const _debug = extendDebug(debug, body.type);
 
-    this.interpreter.hoistFunctions(body);
-    this.interpreter.hoistVars(body);
+    yield* this.interpreter.hoistFunctions(body);
+    yield* this.interpreter.hoistVars(body);
     const statements = body.statements.filter(stmt => stmt.type !== 'FunctionDeclaration');
 
     for (let i = 0; i < statements.length; i++) {
       const statement = statements[i];
       _debug(`Evaluating ${statement.type} in ${body.type}`);
-      value = this.interpreter.evaluate(statement);
+      value = yield* this.interpreter.evaluateNode(statement);
       _debug(`${body.type} statement ${statement.type} completed`);
-      if (this.interpreter.isReturning()) {
+      if (this.interpreter.isAbrupt()) {
         break;
       }
     }
@@ -268,207 +310,284 @@ export class NodeHandler {
     return value;
   }
 
-  Script(body: Script) {
+  *Script(body: Script) {
     let value;
-    const _debug = debug.extend(body.type);
+    const _debug = extendDebug(debug, body.type);
 
-    this.interpreter.hoistFunctions(body);
-    this.interpreter.hoistVars(body);
+    yield* this.interpreter.hoistFunctions(body);
+    yield* this.interpreter.hoistVars(body);
     const statements = body.statements.filter(stmt => stmt.type !== 'FunctionDeclaration');
 
     for (let i = 0; i < statements.length; i++) {
       const statement = statements[i];
       _debug(`Evaluating ${statement.type} in ${body.type}`);
-      value = this.interpreter.evaluate(statement);
+      value = yield* this.interpreter.evaluateNode(statement);
       _debug(`${body.type} statement ${statement.type} completed`);
+      if (this.interpreter.isAbrupt()) {
+        break;
+      }
     }
     _debug(`completed ${body.type}, returning with: ${value}`);
     return value;
   }
-  loopBlock(stmt: ForOfStatement | ForInStatement | ForStatement | WhileStatement | DoWhileStatement) {
-    const _debug = debug.extend(stmt.type);
+
+  *LabeledStatement(stmt: LabeledStatement) {
+    // nested labels (a: b: for(...)) all apply to the innermost statement
+    const labels = (this.labelSets.get(stmt) || []).concat(stmt.label);
+    this.labelSets.set(stmt.body, labels);
+    const value = yield* this.interpreter.evaluateNode(stmt.body);
+    const completion = this.interpreter.completion;
+    if (completion.type === CompletionType.BREAK && completion.target === stmt.label) this.interpreter.complete();
+    return value;
+  }
+
+  *loopBlock(stmt: Loop) {
+    const _debug = extendDebug(debug, stmt.type);
+    this.interpreter.countStep();
     let statements = null;
+    let previousEnvironment = null;
     if (stmt.body.type === 'BlockStatement') {
-      this.interpreter.hoistFunctions(stmt.body.block);
-      this.interpreter.hoistVars(stmt.body.block);
+      // block bodies aren't evaluated as instructions, their statements are
+      if (this.interpreter.coverage) this.interpreter.coverage.record(stmt.body);
+      previousEnvironment = this.interpreter.enterEnvironment(stmt.body.block);
+      yield* this.interpreter.hoistFunctions(stmt.body.block);
+      yield* this.interpreter.hoistVars(stmt.body.block);
       statements = stmt.body.block.statements.filter(stmt => stmt.type !== 'FunctionDeclaration');
     } else {
       statements = [stmt.body];
     }
-    for (let i = 0; i < statements.length; i++) {
-      const statement = statements[i];
-      _debug(`Evaluating ${statement.type} in ${stmt.type}`);
-      this.interpreter.evaluate(statement);
-      _debug(`${stmt.type} statement ${statement.type} completed`);
-      if (this.interpreter.isBreaking()) {
-        break;
-      }
-      if (this.interpreter.isContinuing()) {
-        break;
+    try {
+      for (let i = 0; i < statements.length; i++) {
+        const statement = statements[i];
+        _debug(`Evaluating ${statement.type} in ${stmt.type}`);
+        yield* this.interpreter.evaluateNode(statement);
+        _debug(`${stmt.type} statement ${statement.type} completed`);
+        if (this.interpreter.isAbrupt()) {
+          break;
+        }
       }
+    } finally {
+      if (previousEnvironment) this.interpreter.exitEnvironment(previousEnvironment);
     }
   }
-  ForOfStatement(stmt: ForOfStatement) {
-    const iterationExpression = this.interpreter.evaluate(stmt.right);
-    function* nextValue() {
-      yield* iterationExpression;
+
+  // Consumes break and continue completions that target the passed loop. Returns true when the loop should stop.
+  loopCompleted(stmt: Loop) {
+    const completion = this.interpreter.completion;
+    switch (completion.type) {
+      case CompletionType.CONTINUE: {
+        const labels = this.labelSets.get(stmt) || [];
+        if (completion.target !== null && !labels.includes(completion.target)) return true;
+        this.interpreter.complete();
+        return false;
+      }
+      case CompletionType.BREAK:
+        // labeled breaks are consumed by their LabeledStatement
+        if (completion.target === null) this.interpreter.complete();
+        return true;
+      case CompletionType.RETURN:
+        return true;
+      default:
+        return false;
     }
-    let iterator = nextValue();
+  }
+
+  *ForOfStatement(stmt: ForOfStatement) {
+    const iterationExpression = yield* this.interpreter.evaluateNode(stmt.right);
+    const iterator = getIterator(iterationExpression);
     let result = null;
 
-    while ((result = iterator.next())) {
-      if (result.done) break;
-      const { value } = result;
-      switch (stmt.left.type) {
-        case 'VariableDeclaration': {
-          this.interpreter.declareVariables(stmt.left);
-          const binding = stmt.left.declarators[0].binding;
-          if (binding.type === 'BindingIdentifier') this.interpreter.updateVariableValue(binding, value);
-          else this.interpreter.skipOrThrow(stmt.type + '.left->' + binding.type);
-          break;
-        }
-        default:
-          this.interpreter.skipOrThrow(stmt.type + '.left->' + stmt.left.type);
-      }
-      this.loopBlock(stmt);
-      if (this.interpreter.isContinuing()) {
-        this.interpreter.isContinuing(false);
-        continue;
-      }
-      if (this.interpreter.isBreaking()) {
-        this.interpreter.isBreaking(false);
-        break;
+    while (!(result = iterator.next()).done) {
+      let exiting = true;
+      try {
+        exiting = yield* this.forOfIteration(stmt, result.value);
+      } finally {
+        // leaving the loop early (break, return, throw) closes the iterator
+        if (exiting) closeIterator(iterator);
       }
+      if (exiting) break;
     }
   }
 
-  ForInStatement(stmt: ForInStatement) {
-    const iterationExpression = this.interpreter.evaluate(stmt.right);
+  *ForAwaitStatement(stmt: ForAwaitStatement) {
+    const iterationExpression = yield* this.interpreter.evaluateNode(stmt.right);
+    const iterator = getAsyncIterator(iterationExpression);
 
-    switch (stmt.left.type) {
-      case 'VariableDeclaration': {
-        this.interpreter.declareVariables(stmt.left);
-        const binding = stmt.left.declarators[0].binding;
-        for (let a in iterationExpression) {
-          if (binding.type === 'BindingIdentifier') this.interpreter.updateVariableValue(binding, a);
-          else this.interpreter.skipOrThrow(stmt.type + '.left->' + binding.type);
-          this.loopBlock(stmt);
-          if (this.interpreter.isContinuing()) {
-            this.interpreter.isContinuing(false);
-            continue;
-          }
-          if (this.interpreter.isBreaking()) {
-            this.interpreter.isBreaking(false);
-            break;
-          }
-        }
-        break;
-      }
-      case 'AssignmentTargetIdentifier': {
-        for (let a in iterationExpression) {
-          this.interpreter.updateVariableValue(stmt.left, a);
-          this.loopBlock(stmt);
-          if (this.interpreter.isContinuing()) {
-            this.interpreter.isContinuing(false);
-            continue;
-          }
-          if (this.interpreter.isBreaking()) {
-            this.interpreter.isBreaking(false);
-            break;
-          }
+    while (true) {
+      const result = yield new Suspension(SuspensionType.AWAIT, iterator.next());
+      if (result.done) break;
+      let exiting = true;
+      try {
+        exiting = yield* this.forOfIteration(stmt, result.value);
+      } finally {
+        if (exiting && typeof iterator.return === 'function') {
+          yield new Suspension(SuspensionType.AWAIT, iterator.return());
         }
-        break;
       }
-      default:
-        this.interpreter.skipOrThrow(stmt.type + '.left->' + stmt.left.type);
+      if (exiting) break;
     }
   }
 
-  ForStatement(stmt: ForStatement) {
-    if (stmt.init) {
-      if (stmt.init.type === 'VariableDeclaration') this.interpreter.declareVariables(stmt.init);
-      else this.interpreter.evaluate(stmt.init);
+  // Binds the value of a single for-of or for-await iteration and evaluates the loop body.
+  // Returns true when the loop should stop.
+  *forOfIteration(stmt: ForOfStatement | ForAwaitStatement, value: any) {
+    // each iteration gets its own environment so closures capture that iteration's binding
+    const previousEnvironment = this.interpreter.enterEnvironment(stmt);
+    try {
+      const target = stmt.left.type === 'VariableDeclaration' ? stmt.left.declarators[0].binding : stmt.left;
+      yield* this.interpreter.bindVariable(target, value);
+      yield* this.loopBlock(stmt);
+      return this.loopCompleted(stmt);
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
     }
-    while (this.interpreter.evaluate(stmt.test)) {
-      this.loopBlock(stmt);
-      if (this.interpreter.isBreaking()) {
-        this.interpreter.isBreaking(false);
-        break;
-      }
-      if (stmt.update) this.interpreter.evaluate(stmt.update);
-      if (this.interpreter.isContinuing()) {
-        this.interpreter.isContinuing(false);
-        continue;
+  }
+
+  *ForInStatement(stmt: ForInStatement) {
+    const iterationExpression = yield* this.interpreter.evaluateNode(stmt.right);
+
+    const target = stmt.left.type === 'VariableDeclaration' ? stmt.left.declarators[0].binding : stmt.left;
+    for (let a in iterationExpression) {
+      const previousEnvironment = this.interpreter.enterEnvironment(stmt);
+      try {
+        yield* this.interpreter.bindVariable(target, a);
+        yield* this.loopBlock(stmt);
+      } finally {
+        this.interpreter.exitEnvironment(previousEnvironment);
       }
+      if (this.loopCompleted(stmt)) break;
     }
   }
 
-  WhileStatement(stmt: WhileStatement) {
-    while (this.interpreter.evaluate(stmt.test)) {
-      this.loopBlock(stmt);
-      if (this.interpreter.isContinuing()) {
-        this.interpreter.isContinuing(false);
-        continue;
+  *ForStatement(stmt: ForStatement) {
+    const previousEnvironment = this.interpreter.enterEnvironment(stmt);
+    try {
+      if (stmt.init) {
+        if (stmt.init.type === 'VariableDeclaration') yield* this.interpreter.declareVariables(stmt.init);
+        else yield* this.interpreter.evaluateNode(stmt.init);
       }
-      if (this.interpreter.isBreaking()) {
-        this.interpreter.isBreaking(false);
-        break;
+      while (stmt.test === null || (yield* this.interpreter.evaluateNode(stmt.test))) {
+        yield* this.loopBlock(stmt);
+        if (this.loopCompleted(stmt)) break;
+        // copy the loop bindings before updating so closures from this iteration keep their values
+        this.interpreter.environment = this.interpreter.environment.copy();
+        if (stmt.update) yield* this.interpreter.evaluateNode(stmt.update);
       }
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
     }
   }
 
-  DoWhileStatement(stmt: DoWhileStatement) {
-    do {
-      this.loopBlock(stmt);
-      if (this.interpreter.isContinuing()) {
-        this.interpreter.isContinuing(false);
-        continue;
+  *SwitchStatement(stmt: SwitchStatement) {
+    return yield* this.switchBlock(stmt, stmt.cases);
+  }
+
+  *SwitchStatementWithDefault(stmt: SwitchStatementWithDefault) {
+    return yield* this.switchBlock(stmt, [...stmt.preDefaultCases, stmt.defaultCase, ...stmt.postDefaultCases]);
+  }
+
+  *switchBlock(stmt: SwitchStatement | SwitchStatementWithDefault, cases: (SwitchCase | SwitchDefault)[]) {
+    const _debug = extendDebug(debug, stmt.type);
+    const discriminant = yield* this.interpreter.evaluateNode(stmt.discriminant);
+
+    const previousEnvironment = this.interpreter.enterEnvironment(stmt);
+    try {
+      // all cases share one block scope
+      const block = new Block({ statements: ([] as Statement[]).concat(...cases.map(c => c.consequent)) });
+      yield* this.interpreter.hoistFunctions(block);
+      yield* this.interpreter.hoistVars(block);
+
+      // cases are tested in source order, the default case is only used if no other case matches
+      let start = -1;
+      for (let i = 0; i < cases.length && start === -1; i++) {
+        const c = cases[i];
+        if (c.type === 'SwitchCase' && (yield* this.interpreter.evaluateNode(c.test)) === discriminant) start = i;
       }
-      if (this.interpreter.isBreaking()) {
-        this.interpreter.isBreaking(false);
-        break;
+      if (start === -1) start = cases.findIndex(c => c.type === 'SwitchDefault');
+      _debug(`matched case %o of %o`, start, cases.length);
+
+      let value;
+      if (start > -1) {
+        cases: for (let i = start; i < cases.length; i++) {
+          const statements = cases[i].consequent.filter(stmt => stmt.type !== 'FunctionDeclaration');
+          for (let statement of statements) {
+            value = yield* this.interpreter.evaluateNode(statement);
+            if (this.interpreter.isAbrupt()) {
+              break cases;
+            }
+          }
+        }
       }
-    } while (this.interpreter.evaluate(stmt.test));
+      // an unlabeled break only exits the switch, anything else is left for the enclosing statements
+      const completion = this.interpreter.completion;
+      if (completion.type === CompletionType.BREAK && completion.target === null) this.interpreter.complete();
+      return value;
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
+    }
+  }
+
+  *WhileStatement(stmt: WhileStatement) {
+    while (yield* this.interpreter.evaluateNode(stmt.test)) {
+      yield* this.loopBlock(stmt);
+      if (this.loopCompleted(stmt)) break;
+    }
+  }
+
+  *DoWhileStatement(stmt: DoWhileStatement) {
+    do {
+      yield* this.loopBlock(stmt);
+      if (this.loopCompleted(stmt)) break;
+    } while (yield* this.interpreter.evaluateNode(stmt.test));
   }
 
   ThisExpression(expr: ThisExpression) {
-    return this.interpreter.getCurrentContext();
+    return this.interpreter.getThisBinding();
   }
 
-  NewExpression(expr: NewExpression) {
-    const newTarget = this.interpreter.evaluate(expr.callee);
+  *NewExpression(expr: NewExpression) {
+    const newTarget = this.interpreter.toDynamicCode(yield* this.interpreter.evaluateNode(expr.callee));
     const args: any[] = [];
     for (let arg of expr.arguments) {
       if (arg.type === 'SpreadElement') {
-        const value = this.interpreter.evaluate(arg.expression);
+        const value = yield* this.interpreter.evaluateNode(arg.expression);
         args.push(...value);
       } else {
-        args.push(this.interpreter.evaluate(arg));
+        args.push(yield* this.interpreter.evaluateNode(arg));
       }
     }
-    let result = new newTarget(...args);
-
+    if (this.interpreter.observed[InterpreterEventName.CALL]) {
+      this.interpreter.emit(InterpreterEventName.CALL, new InterpreterCallEvent(expr, newTarget, undefined, args));
+    }
+    let result =
+      newTarget === this.interpreter.functionConstructor
+        ? yield* this.interpreter.evaluateFunctionConstructor(args, expr)
+        : new newTarget(...args);
+    if (isError(result)) this.interpreter.setErrorStack(result);
+    if (this.interpreter.observed[InterpreterEventName.RETURN]) {
+      this.interpreter.emit(InterpreterEventName.RETURN, new InterpreterReturnEvent(expr, newTarget, result));
+    }
     return result;
   }
 
-  ArrayExpression(expr: ArrayExpression) {
+  *ArrayExpression(expr: ArrayExpression) {
     const elements = [];
     for (let el of expr.elements) {
       if (el === null) {
         elements.push(null);
       } else if (el.type === 'SpreadElement') {
-        const iterable = this.interpreter.evaluate(el.expression);
+        const iterable = yield* this.interpreter.evaluateNode(el.expression);
         elements.push(...Array.from(iterable));
       } else {
-        elements.push(this.interpreter.evaluate(el));
+        elements.push(yield* this.interpreter.evaluateNode(el));
       }
     }
-    return elements;
+    return this.interpreter.adopt(elements);
   }
 
-  ObjectExpression(expr: ObjectExpression) {
-    const _debug = debug.extend('ObjectExpression');
-    const obj: { [key: string]: any } = {};
+  *ObjectExpression(expr: ObjectExpression) {
+    const _debug = extendDebug(debug, 'ObjectExpression');
+    const obj: { [key: string]: any } = this.interpreter.adopt({});
     const batchOperations: Map<string, Map<string, () => any>> = new Map();
     function getPropertyDescriptors(name: string) {
       if (batchOperations.has(name)) return batchOperations.get(name)!;
@@ -480,14 +599,18 @@ export class NodeHandler {
       switch (prop.type) {
         case 'DataProperty': {
           const name =
-            prop.name.type === 'StaticPropertyName' ? prop.name.value : this.interpreter.evaluate(prop.name.expression);
-          obj[name] = this.interpreter.evaluate(prop.expression);
+            prop.name.type === 'StaticPropertyName'
+              ? prop.name.value
+              : yield* this.interpreter.evaluateNode(prop.name.expression);
+          obj[name] = yield* this.interpreter.evaluateNode(prop.expression);
           break;
         }
         case 'Method': {
           const name =
-            prop.name.type === 'StaticPropertyName' ? prop.name.value : this.interpreter.evaluate(prop.name.expression);
-          obj[name] = this.interpreter.createFunction(prop);
+            prop.name.type === 'StaticPropertyName'
+              ? prop.name.value
+              : yield* this.interpreter.evaluateNode(prop.name.expression);
+          obj[name] = this.interpreter.createFunction(prop, obj, name);
           break;
         }
         case 'ShorthandProperty': {
@@ -497,16 +620,20 @@ export class NodeHandler {
         }
         case 'Getter': {
           const name =
-            prop.name.type === 'StaticPropertyName' ? prop.name.value : this.interpreter.evaluate(prop.name.expression);
+            prop.name.type === 'StaticPropertyName'
+              ? prop.name.value
+              : yield* this.interpreter.evaluateNode(prop.name.expression);
           const operations = getPropertyDescriptors(name);
-          operations.set('get', this.interpreter.createFunction(prop));
+          operations.set('get', this.interpreter.createFunction(prop, obj, name));
           break;
         }
         case 'Setter': {
           const name =
-            prop.name.type === 'StaticPropertyName' ? prop.name.value : this.interpreter.evaluate(prop.name.expression);
+            prop.name.type === 'StaticPropertyName'
+              ? prop.name.value
+              : yield* this.interpreter.evaluateNode(prop.name.expression);
           const operations = getPropertyDescriptors(name);
-          operations.set('set', this.interpreter.createFunction(prop));
+          operations.set('set', this.interpreter.createFunction(prop, obj, name));
           break;
         }
         default:
@@ -527,95 +654,160 @@ export class NodeHandler {
     return obj;
   }
 
-  StaticMemberExpression(expr: StaticMemberExpression) {
-    if (expr.object.type === 'Super') return this.interpreter.skipOrThrow(expr.object.type);
-    const object = this.interpreter.evaluate(expr.object);
-    let result = object[expr.property];
-    return result;
+  *StaticMemberExpression(expr: StaticMemberExpression) {
+    if (expr.object.type === 'Super') {
+      return this.interpreter.getProperty(
+        this.interpreter.getSuperBase(),
+        expr.property,
+        expr,
+        this.interpreter.getThisBinding(),
+      );
+    }
+    const object = yield* this.interpreter.evaluateNode(expr.object);
+    return this.interpreter.getProperty(object, expr.property, expr);
   }
 
-  ComputedMemberExpression(expr: ComputedMemberExpression) {
-    if (expr.object.type === 'Super') return this.interpreter.skipOrThrow(expr.object.type);
-    const object = this.interpreter.evaluate(expr.object);
-    const property = this.interpreter.evaluate(expr.expression);
-    let result = object[property];
-    return result;
+  *ComputedMemberExpression(expr: ComputedMemberExpression) {
+    if (expr.object.type === 'Super') {
+      const property = yield* this.interpreter.evaluateNode(expr.expression);
+      return this.interpreter.getProperty(
+        this.interpreter.getSuperBase(),
+        property,
+        expr,
+        this.interpreter.getThisBinding(),
+      );
+    }
+    const object = yield* this.interpreter.evaluateNode(expr.object);
+    const property = yield* this.interpreter.evaluateNode(expr.expression);
+    return this.interpreter.getProperty(object, property, expr);
   }
 
-  CallExpression(expr: CallExpression) {
-    const _debug = debug.extend('CallExpression');
-    if (expr.callee.type === 'Super') return this.interpreter.skipOrThrow(expr.callee.type);
+  *CallExpression(expr: CallExpression) {
+    const _debug = extendDebug(debug, 'CallExpression');
 
     const args: any[] = [];
     for (let arg of expr.arguments) {
       if (arg.type === 'SpreadElement') {
-        const value = this.interpreter.evaluate(arg.expression);
+        const value = yield* this.interpreter.evaluateNode(arg.expression);
         args.push(...value);
       } else {
-        args.push(this.interpreter.evaluate(arg));
+        args.push(yield* this.interpreter.evaluateNode(arg));
       }
     }
 
-    let context = this.interpreter.getCurrentContext();
+    if (expr.callee.type === 'Super') {
+      _debug(`calling super constructor`);
+      return this.interpreter.constructSuper(args);
+    }
+
+    const { fn, context } = yield* this.evaluateCallee(expr.callee);
+    return yield* this.callFunction(expr, fn, context, args);
+  }
+
+  // Evaluates the function of a call or tagged template along with the `this` value it is called with.
+  private *evaluateCallee(callee: Expression) {
+    let context: any = this.interpreter.getCurrentContext();
+    if (context === uninitializedThis) context = undefined;
     let fn = null;
-    if (expr.callee.type === 'StaticMemberExpression') {
-      context = this.interpreter.evaluate(expr.callee.object);
-      fn = context[expr.callee.property];
-    } else if (expr.callee.type === 'ComputedMemberExpression') {
-      context = this.interpreter.evaluate(expr.callee.object);
-      const computedProperty = this.interpreter.evaluate(expr.callee.expression);
-      fn = context[computedProperty];
+    if (callee.type === 'StaticMemberExpression') {
+      if (callee.object.type === 'Super') {
+        context = this.interpreter.getThisBinding();
+        fn = this.interpreter.getProperty(this.interpreter.getSuperBase(), callee.property, callee, context);
+      } else {
+        context = yield* this.interpreter.evaluateNode(callee.object);
+        fn = this.interpreter.getProperty(context, callee.property, callee);
+      }
+    } else if (callee.type === 'ComputedMemberExpression') {
+      if (callee.object.type === 'Super') {
+        const computedProperty = yield* this.interpreter.evaluateNode(callee.expression);
+        context = this.interpreter.getThisBinding();
+        fn = this.interpreter.getProperty(this.interpreter.getSuperBase(), computedProperty, callee, context);
+      } else {
+        context = yield* this.interpreter.evaluateNode(callee.object);
+        const computedProperty = yield* this.interpreter.evaluateNode(callee.expression);
+        fn = this.interpreter.getProperty(context, computedProperty, callee);
+      }
     } else {
-      fn = this.interpreter.evaluate(expr.callee);
+      fn = yield* this.interpreter.evaluateNode(callee);
+      // functions called by name inside of `with (object)` that are properties of the object are called on it
+      if (callee.type === 'IdentifierExpression') {
+        const object = this.interpreter.getWithObject(callee);
+        if (object) context = object;
+      }
     }
+    return { fn, context };
+  }
 
+  private *callFunction(node: CallExpression | TemplateExpression, fn: any, context: any, args: any[]) {
+    const _debug = extendDebug(debug, 'CallExpression');
+    fn = this.interpreter.toDynamicCode(fn);
     if (typeof fn === 'function') {
       let returnValue: any;
-      _debug(`calling function ${fn.name}`);
-      returnValue = fn.apply(context, args);
-      _debug(`function completed ${fn.name}`);
+      // reading the name of a host function could have side effects, e.g. on a proxy
+      if (_debug.enabled) _debug(`calling function ${fn.name}`);
+      if (this.interpreter.observed[InterpreterEventName.CALL]) {
+        this.interpreter.emit(InterpreterEventName.CALL, new InterpreterCallEvent(node, fn, context, args));
+      }
+      const call = this.interpreter.interpretedCalls.get(fn);
+      if (fn === this.interpreter.evalFunction) {
+        const direct =
+          node.type === 'CallExpression' && node.callee.type === 'IdentifierExpression' && node.callee.name === 'eval';
+        returnValue = yield* this.interpreter.evaluateEval(args[0], node, direct);
+      } else if (fn === this.interpreter.functionConstructor) {
+        returnValue = yield* this.interpreter.evaluateFunctionConstructor(args, node);
+      }
+      // interpreted functions are evaluated in place so the debugger can pause inside of them
+      else if (call) returnValue = yield* call(context, args);
+      else {
+        returnValue = this.interpreter.fromHost(Reflect.apply(fn, context, args));
+        // e.g. `Error('message')`
+        if (isError(returnValue)) this.interpreter.setErrorStack(returnValue);
+      }
+      if (_debug.enabled) _debug(`function completed ${fn.name}`);
+      if (this.interpreter.observed[InterpreterEventName.RETURN]) {
+        this.interpreter.emit(InterpreterEventName.RETURN, new InterpreterReturnEvent(node, fn, returnValue));
+      }
       return returnValue;
     } else {
-      new TypeError(`${fn} is not a function (${this.interpreter.codegen(expr)})`);
+      new TypeError(`${fn} is not a function (${this.interpreter.codegen(node)})`);
     }
   }
 
-  AssignmentExpression(expr: AssignmentExpression) {
-    const _debug = debug.extend('AssignmentExpression');
+  *AssignmentExpression(expr: AssignmentExpression) {
+    const _debug = extendDebug(debug, 'AssignmentExpression');
     switch (expr.binding.type) {
       case 'AssignmentTargetIdentifier':
         _debug(`assigning ${expr.binding.name} new value`);
-        return this.interpreter.updateVariableValue(expr.binding, this.interpreter.evaluate(expr.expression));
+        return this.interpreter.updateVariableValue(
+          expr.binding,
+          yield* this.interpreter.evaluateNode(expr.expression),
+        );
       case 'ComputedMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.binding.object);
-        const property = this.interpreter.evaluate(expr.binding.expression);
+        const object = yield* this.interpreter.evaluateNode(expr.binding.object);
+        const property = yield* this.interpreter.evaluateNode(expr.binding.expression);
         _debug(`evaluating expression ${expr.expression.type} to assign to ${toString(property)}`);
-        const value = this.interpreter.evaluate(expr.expression);
+        const value = yield* this.interpreter.evaluateNode(expr.expression);
         _debug(`assigning object property "${toString(property)}" new value`);
-        let result = (object[property] = value);
-
-        return result;
+        return this.interpreter.setProperty(object, property, value, expr.binding);
       }
       case 'StaticMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.binding.object);
+        const object = yield* this.interpreter.evaluateNode(expr.binding.object);
         const property = expr.binding.property;
         _debug(`evaluating expression ${expr.expression.type} to assign to ${property}`);
-        const value = this.interpreter.evaluate(expr.expression);
+        const value = yield* this.interpreter.evaluateNode(expr.expression);
         _debug(`assigning object property "${property}" new value`);
-        const descriptor = Object.getOwnPropertyDescriptor(object, property);
-
-        let result = null;
-        result = object[property] = value;
-        return result;
+        return this.interpreter.setProperty(object, property, value, expr.binding);
       }
       case 'ArrayAssignmentTarget':
-      case 'ObjectAssignmentTarget':
-      default:
-        return this.interpreter.skipOrThrow(expr.binding.type);
+      case 'ObjectAssignmentTarget': {
+        const value = yield* this.interpreter.evaluateNode(expr.expression);
+        yield* this.interpreter.bindVariable(expr.binding, value);
+        return value;
+      }
     }
   }
 
-  UpdateExpression(expr: UpdateExpression) {
+  *UpdateExpression(expr: UpdateExpression) {
     switch (expr.operand.type) {
       case 'AssignmentTargetIdentifier': {
         const currentValue = this.interpreter.getRuntimeValue(expr.operand);
@@ -624,19 +816,19 @@ export class NodeHandler {
         return expr.isPrefix ? nextValue : currentValue;
       }
       case 'ComputedMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.operand.object);
-        const property = this.interpreter.evaluate(expr.operand.expression);
-        const currentValue = object[property];
+        const object = yield* this.interpreter.evaluateNode(expr.operand.object);
+        const property = yield* this.interpreter.evaluateNode(expr.operand.expression);
+        const currentValue = this.interpreter.getProperty(object, property, expr.operand);
         const nextValue = expr.operator === '++' ? currentValue + 1 : currentValue - 1;
-        object[property] = nextValue;
+        this.interpreter.setProperty(object, property, nextValue, expr.operand);
         return expr.isPrefix ? nextValue : currentValue;
       }
       case 'StaticMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.operand.object);
+        const object = yield* this.interpreter.evaluateNode(expr.operand.object);
         const property = expr.operand.property;
-        const currentValue = object[property];
+        const currentValue = this.interpreter.getProperty(object, property, expr.operand);
         const nextValue = expr.operator === '++' ? currentValue + 1 : currentValue - 1;
-        object[property] = nextValue;
+        this.interpreter.setProperty(object, property, nextValue, expr.operand);
         return expr.isPrefix ? nextValue : currentValue;
       }
       default:
@@ -644,29 +836,27 @@ export class NodeHandler {
     }
   }
 
-  CompoundAssignmentExpression(expr: CompoundAssignmentExpression) {
+  *CompoundAssignmentExpression(expr: CompoundAssignmentExpression) {
     const operation = compoundAssignmentOperatorMap.get(expr.operator);
     switch (expr.binding.type) {
       case 'AssignmentTargetIdentifier': {
         const currentValue = this.interpreter.getRuntimeValue(expr.binding);
-        const newValue = this.interpreter.evaluate(expr.expression);
+        const newValue = yield* this.interpreter.evaluateNode(expr.expression);
         return this.interpreter.updateVariableValue(expr.binding, operation(currentValue, newValue));
       }
       case 'ComputedMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.binding.object);
-        const property = this.interpreter.evaluate(expr.binding.expression);
-        const currentValue = object[property];
-        const newValue = this.interpreter.evaluate(expr.expression);
-        const result = (object[property] = operation(currentValue, newValue));
-        return result;
+        const object = yield* this.interpreter.evaluateNode(expr.binding.object);
+        const property = yield* this.interpreter.evaluateNode(expr.binding.expression);
+        const currentValue = this.interpreter.getProperty(object, property, expr.binding);
+        const newValue = yield* this.interpreter.evaluateNode(expr.expression);
+        return this.interpreter.setProperty(object, property, operation(currentValue, newValue), expr.binding);
       }
       case 'StaticMemberAssignmentTarget': {
-        const object = this.interpreter.evaluate(expr.binding.object);
+        const object = yield* this.interpreter.evaluateNode(expr.binding.object);
         const property = expr.binding.property;
-        const currentValue = object[property];
-        const newValue = this.interpreter.evaluate(expr.expression);
-        const result = (object[property] = operation(currentValue, newValue));
-        return result;
+        const currentValue = this.interpreter.getProperty(object, property, expr.binding);
+        const newValue = yield* this.interpreter.evaluateNode(expr.expression);
+        return this.interpreter.setProperty(object, property, operation(currentValue, newValue), expr.binding);
       }
       default:
         return;
@@ -682,49 +872,87 @@ export class NodeHandler {
       expr.sticky ? 'y' : '',
       expr.unicode ? 'u' : '',
     ].filter(_ => !!_);
-    return new RegExp(expr.pattern, ...flags);
+    return this.interpreter.adopt(new RegExp(expr.pattern, ...flags));
   }
 
-  TemplateExpression(expr: TemplateExpression) {
-    const parts = [];
+  *TemplateExpression(expr: TemplateExpression) {
+    if (expr.tag) {
+      const { fn, context } = yield* this.evaluateCallee(expr.tag);
+      const args: any[] = [this.getTemplateObject(expr)];
+      for (let el of expr.elements) {
+        if (el.type !== 'TemplateElement') args.push(yield* this.interpreter.evaluateNode(el));
+      }
+      return yield* this.callFunction(expr, fn, context, args);
+    }
+    let result = '';
     for (let el of expr.elements) {
       if (el.type === 'TemplateElement') {
-        parts.push(el.rawValue);
+        result += cookTemplateValue(normalizeTemplateValue(el.rawValue));
       } else {
-        parts.push(this.interpreter.evaluate(el));
+        const value = yield* this.interpreter.evaluateNode(el);
+        result += `${value}`;
       }
     }
-    return parts.join('');
+    return result;
+  }
+
+  // A tag is passed the same frozen strings every time its template is evaluated, so it can cache by identity.
+  private getTemplateObject(expr: TemplateExpression) {
+    let strings = this.templateObjects.get(expr);
+    if (!strings) {
+      const raw = this.interpreter.adopt(
+        expr.elements.flatMap(el => (el.type === 'TemplateElement' ? [normalizeTemplateValue(el.rawValue)] : [])),
+      );
+      strings = this.interpreter.adopt(raw.map(cookTemplateValue));
+      Object.defineProperty(strings, 'raw', { value: Object.freeze(raw) });
+      this.templateObjects.set(expr, Object.freeze(strings));
+    }
+    return strings;
   }
 
   ArrowExpression(expr: ArrowExpression) {
     const interpreter = this.interpreter;
     const currentContext = interpreter.getCurrentContext();
-
-    return function(this: BasicContext) {
-      const arrowFn = (...args: any) => {
-        interpreter.pushContext(this);
-        for (let i = 0; i < expr.params.items.length; i++) {
-          let param = expr.params.items[i];
-          interpreter.bindVariable(param, args[i]);
-        }
-        let returnValue = undefined;
-        if (expr.body.type === 'FunctionBody') {
-          const blockResult = interpreter.evaluate(expr.body);
-          returnValue = blockResult;
-        } else {
-          returnValue = interpreter.evaluate(expr.body);
-        }
-        interpreter.popContext();
-        return returnValue;
-      };
-      Object.assign(arrowFn);
-      return arrowFn;
-    }.bind(currentContext)();
+    const closure = interpreter.environment;
+    const enclosingFrame = interpreter.frame;
+
+    const createFrame = () =>
+      new Frame(currentContext, new Environment(expr, closure))
+        .inherit(enclosingFrame)
+        .setCall(expr, '', interpreter.frame);
+    const call = (thisArg: any, args: any[]) =>
+      interpreter.evaluateInFrame(createFrame(), this.evaluateArrow(expr, args));
+
+    const arrowFn = (...args: any) => {
+      if (expr.isAsync) {
+        return interpreter.adopt(runAsyncFunction(interpreter, this.evaluateArrow(expr, args), createFrame()));
+      }
+      return interpreter.runEvaluation(call(undefined, args));
+    };
+    if (!expr.isAsync) interpreter.interpretedCalls.set(arrowFn, call);
+    return interpreter.adopt(arrowFn);
+  }
+  *evaluateArrow(expr: ArrowExpression, args: any[]) {
+    for (let i = 0; i < expr.params.items.length; i++) {
+      let param = expr.params.items[i];
+      yield* this.interpreter.bindVariable(param, args[i]);
+    }
+    if (expr.params.rest) {
+      const rest = this.interpreter.adopt(args.slice(expr.params.items.length));
+      yield* this.interpreter.bindVariable(expr.params.rest, rest);
+    }
+    if (expr.body.type === 'FunctionBody') {
+      return yield* this.interpreter.evaluateFunctionBody(expr);
+    } else {
+      return yield* this.interpreter.evaluateNode(expr.body);
+    }
   }
   FunctionExpression(expr: FunctionExpression) {
     return this.interpreter.createFunction(expr);
   }
+  *ClassExpression(expr: ClassExpression) {
+    return yield* this.classDefinition(expr);
+  }
   IdentifierExpression(expr: IdentifierExpression) {
     return this.interpreter.getRuntimeValue(expr);
   }
@@ -743,19 +971,19 @@ export class NodeHandler {
   LiteralNullExpression(expr?: LiteralNullExpression) {
     return null;
   }
-  BinaryExpression(expr: BinaryExpression) {
+  *BinaryExpression(expr: BinaryExpression) {
     const operation = binaryOperatorMap.get(expr.operator);
-    const left = this.interpreter.evaluate(expr.left);
-    const deferredRight = () => {
-      return this.interpreter.evaluate(expr.right);
-    };
-    return operation(left, deferredRight);
+    const left = yield* this.interpreter.evaluateNode(expr.left);
+    // short circuit logical operators before evaluating the right side
+    if ((expr.operator === '&&' && !left) || (expr.operator === '||' && left)) return left;
+    const right = yield* this.interpreter.evaluateNode(expr.right);
+    return operation(left, () => right);
   }
-  UnaryExpression(expr: UnaryExpression) {
+  *UnaryExpression(expr: UnaryExpression) {
     const operation = unaryOperatorMap.get(expr.operator);
     if (!operation) return this.interpreter.skipOrThrow(`${expr.type} : ${expr.operator}`);
     try {
-      const operand = this.interpreter.evaluate(expr.operand);
+      const operand = yield* this.interpreter.evaluateNode(expr.operand);
       return operation(operand);
     } catch (e) {
       if (e instanceof ReferenceError && expr.operator === 'typeof' && expr.operand.type === 'IdentifierExpression') {
@@ -765,11 +993,47 @@ export class NodeHandler {
     }
   }
 
-  BreakStatement(...args: any) {
-    this.interpreter.isBreaking(true);
+  *AwaitExpression(expr: AwaitExpression) {
+    const value = yield* this.interpreter.evaluateNode(expr.expression);
+    return yield new Suspension(SuspensionType.AWAIT, value);
+  }
+
+  *YieldExpression(expr: YieldExpression) {
+    const value = yield* this.interpreter.evaluateNode(expr.expression);
+    return yield new Suspension(SuspensionType.YIELD, value);
+  }
+
+  *YieldGeneratorExpression(expr: YieldGeneratorExpression) {
+    const iterator = getIterator(yield* this.interpreter.evaluateNode(expr.expression));
+    let result = iterator.next();
+    while (!result.done) {
+      let sent;
+      try {
+        sent = yield new Suspension(SuspensionType.YIELD, result.value);
+      } catch (e) {
+        // forward return() and throw() on the outer generator to the delegate
+        if (e instanceof GeneratorReturn) {
+          if (typeof iterator.return !== 'function') throw e;
+          result = iterator.return(e.value);
+          if (result.done) throw new GeneratorReturn(result.value);
+        } else if (typeof iterator.throw === 'function') {
+          result = iterator.throw(e);
+        } else {
+          closeIterator(iterator);
+          throw new TypeError(`The iterator does not provide a 'throw' method`);
+        }
+        continue;
+      }
+      result = iterator.next(sent);
+    }
+    return result.value;
+  }
+
+  BreakStatement(stmt: BreakStatement) {
+    this.interpreter.complete(CompletionType.BREAK, undefined, stmt.label);
   }
-  ContinueStatement(...args: any) {
-    this.interpreter.isContinuing(true);
+  ContinueStatement(stmt: ContinueStatement) {
+    this.interpreter.complete(CompletionType.CONTINUE, undefined, stmt.label);
   }
   DebuggerStatement(...args: any) {
     debugger;
@@ -777,38 +1041,23 @@ export class NodeHandler {
 
   EmptyStatement(...args: any) {}
 
-  // TODO support these nodes
-  WithStatement(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  SwitchStatementWithDefault(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  SwitchStatement(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  LabeledStatement(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  ForAwaitStatement(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
+  *WithStatement(stmt: WithStatement) {
+    const object = yield* this.interpreter.evaluateNode(stmt.object);
+    if (object === null || object === undefined) throw new TypeError(`Cannot convert ${object} to object`);
+    const previousEnvironment = this.interpreter.enterEnvironment(stmt);
+    this.interpreter.environment.object = Object(object);
+    try {
+      return yield* this.interpreter.evaluateNode(stmt.body);
+    } finally {
+      this.interpreter.exitEnvironment(previousEnvironment);
+    }
   }
+
+  // TODO support these nodes
   NewTargetExpression(...args: any) {
     throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
   }
-  AwaitExpression(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
   Super(...args: any) {
     throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
   }
-  ClassExpression(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  YieldExpression(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
-  YieldGeneratorExpression(...args: any) {
-    throw new InterpreterRuntimeError(`Unsupported node ${arguments[0].type}`);
-  }
 }
@@ -0,0 +1,299 @@
+import {
+  Expression,
+  IdentifierExpression,
+  LiteralBooleanExpression,
+  LiteralInfinityExpression,
+  LiteralNullExpression,
+  LiteralNumericExpression,
+  LiteralStringExpression,
+  Node,
+  Script,
+  UnaryExpression,
+} from 'shift-ast';
+import { Environment } from './environment';
+import {
+  InterpreterAfterNodeEvent,
+  InterpreterBeforeNodeEvent,
+  InterpreterCallEvent,
+  InterpreterEventName,
+  InterpreterPropertyEvent,
+  InterpreterVariableWriteEvent,
+} from './events';
+import { Instruction } from './instruction-buffer';
+import { Interpreter } from './interpreter';
+
+export interface PartialEvaluatorOptions {
+  // host functions that have no side effects in addition to the built-ins, e.g. the `atob` of a BrowserEnvironment
+  pureFunctions?: Function[];
+}
+
+// An expression being evaluated. `start` orders it against when environments and objects were created, anything
+// created after it started is local to its evaluation and changing it is not a side effect.
+interface Evaluation {
+  instruction: Instruction;
+  start: number;
+  // it had side effects or read values of the host, which could be different in another environment
+  tainted: boolean;
+}
+
+// Nodes that create the objects their evaluation returns.
+const creatingTypes = new Set([
+  'ArrayExpression',
+  'ArrowExpression',
+  'ClassExpression',
+  'FunctionExpression',
+  'NewExpression',
+  'ObjectExpression',
+]);
+
+const literalTypes = new Set([
+  'LiteralBooleanExpression',
+  'LiteralInfinityExpression',
+  'LiteralNullExpression',
+  'LiteralNumericExpression',
+  'LiteralStringExpression',
+]);
+
+const pureGlobals = [
+  'Array',
+  'Boolean',
+  'Number',
+  'Object',
+  'RegExp',
+  'String',
+  'atob',
+  'btoa',
+  'decodeURI',
+  'decodeURIComponent',
+  'encodeURI',
+  'encodeURIComponent',
+  'escape',
+  'isFinite',
+  'isNaN',
+  'parseFloat',
+  'parseInt',
+  'unescape',
+];
+
+const pureMethods: { [name: string]: string[] } = {
+  Array: ['from', 'isArray', 'of'],
+  'Array.prototype': [
+    'concat',
+    'every',
+    'filter',
+    'findIndex',
+    'forEach',
+    'includes',
+    'indexOf',
+    'join',
+    'lastIndexOf',
+    'map',
+    'reduce',
+    'reduceRight',
+    'slice',
+    'some',
+    'toString',
+  ],
+  'Function.prototype': ['toString'],
+  JSON: ['parse', 'stringify'],
+  Number: ['isFinite', 'isInteger', 'isNaN', 'parseFloat', 'parseInt'],
+  Object: ['entries', 'getOwnPropertyNames', 'is', 'keys', 'values'],
+  'Object.prototype': ['hasOwnProperty', 'toString'],
+  String: ['fromCharCode', 'fromCodePoint', 'raw'],
+};
+
+const builtInPureFunctions = new WeakMap<object, Set<Function>>();
+
+// The functions of a global object's built-ins that don't change anything, `Math.random` aside they return the same
+// value for the same arguments. The objects they return are new.
+function getPureFunctions(global: any) {
+  let functions = builtInPureFunctions.get(global);
+  if (!functions) {
+    functions = new Set();
+    for (const name of pureGlobals) {
+      if (typeof global[name] === 'function') functions.add(global[name]);
+    }
+    for (const path of Object.keys(pureMethods)) {
+      const object = path.split('.').reduce((object, name) => object && object[name], global);
+      if (object) pureMethods[path].forEach(name => functions!.add(object[name]));
+    }
+    for (const name of Object.getOwnPropertyNames(global.Math)) {
+      if (typeof global.Math[name] === 'function' && name !== 'random') functions.add(global.Math[name]);
+    }
+    builtInPureFunctions.set(global, functions);
+  }
+  return functions;
+}
+
+function isPrimitive(value: any) {
+  return value === null || (typeof value !== 'object' && typeof value !== 'function');
+}
+
+// The literal for a primitive value, null for values without one.
+function createLiteral(value: any): Expression | null {
+  switch (typeof value) {
+    case 'string':
+      return new LiteralStringExpression({ value });
+    case 'boolean':
+      return new LiteralBooleanExpression({ value });
+    case 'undefined':
+      return new UnaryExpression({ operator: 'void', operand: new LiteralNumericExpression({ value: 0 }) });
+    case 'number':
+      if (Number.isNaN(value)) return new IdentifierExpression({ name: 'NaN' });
+      if (value < 0 || Object.is(value, -0)) {
+        return new UnaryExpression({ operator: '-', operand: createLiteral(-value)! });
+      }
+      if (value === Infinity) return new LiteralInfinityExpression();
+      return new LiteralNumericExpression({ value });
+    case 'object':
+      return value === null ? new LiteralNullExpression() : null;
+    default:
+      return null;
+  }
+}
+
+// Records the values expressions of the interpreter's script evaluate to and folds the ones that were constant into
+// literals. An expression is constant if it evaluated to the same primitive value every time and its evaluation
+// didn't change variables or objects that existed before it started, call host functions that could have, or read
+// primitive properties of objects the script didn't create.
+export class PartialEvaluator {
+  interpreter: Interpreter;
+  // the value of each expression that evaluated to the same primitive so far
+  constants = new Map<Node, any>();
+  // expressions that evaluated to different values, objects, had side effects or didn't complete
+  variable = new WeakSet<Node>();
+  private evaluations: Evaluation[] = [];
+  private sequence = 0;
+  private created = new WeakMap<object, number>();
+  // calls of host functions without side effects
+  private pureCalls = new WeakSet<Node>();
+  private pureFunctions: Set<Function>;
+  private listeners: { [K in InterpreterEventName]?: (event: any) => void } = {
+    [InterpreterEventName.BEFORE_NODE]: (event: InterpreterBeforeNodeEvent) => this.enter(event),
+    [InterpreterEventName.AFTER_NODE]: (event: InterpreterAfterNodeEvent) => this.exit(event),
+    [InterpreterEventName.VARIABLE_WRITE]: (event: InterpreterVariableWriteEvent) => this.variableWritten(event),
+    [InterpreterEventName.PROPERTY_GET]: (event: InterpreterPropertyEvent) => this.propertyGet(event),
+    [InterpreterEventName.PROPERTY_SET]: (event: InterpreterPropertyEvent) => this.propertySet(event),
+    [InterpreterEventName.CALL]: (event: InterpreterCallEvent) => this.called(event),
+  };
+
+  constructor(interpreter: Interpreter, options: PartialEvaluatorOptions = {}) {
+    this.interpreter = interpreter;
+    this.pureFunctions = new Set(options.pureFunctions);
+    for (const [name, listener] of Object.entries(this.listeners)) interpreter.on(name, listener!);
+  }
+
+  // Stops recording evaluations.
+  detach() {
+    for (const [name, listener] of Object.entries(this.listeners)) this.interpreter.off(name, listener!);
+  }
+
+  // Returns a copy of the script, the interpreter's loaded script by default, with the constant expressions replaced
+  // by literals. Expressions that never ran are left as they are.
+  fold(script: Script = this.interpreter.loadedScript): Script {
+    return this.replace(script, false) as Script;
+  }
+
+  private replace(node: any, foldable: boolean): any {
+    if (foldable && this.constants.has(node) && !this.variable.has(node) && !literalTypes.has(node.type)) {
+      const literal = createLiteral(this.constants.get(node));
+      if (literal) return literal;
+    }
+    let changes: { [key: string]: any } | null = null;
+    for (const key of Object.keys(node)) {
+      const child = node[key];
+      let replacement = child;
+      if (Array.isArray(child)) {
+        const elements = child.map(element => (element && element.type ? this.replace(element, true) : element));
+        if (elements.some((element, i) => element !== child[i])) replacement = elements;
+      } else if (child && typeof child.type === 'string') {
+        // a string in place of the expression of an expression statement could become a directive
+        const foldChild = node.type !== 'ExpressionStatement' || typeof this.constants.get(child) !== 'string';
+        replacement = this.replace(child, foldChild);
+      }
+      if (replacement !== child) changes = Object.assign(changes || {}, { [key]: replacement });
+    }
+    return changes ? new node.constructor({ ...node, ...changes }) : node;
+  }
+
+  private enter(event: InterpreterBeforeNodeEvent) {
+    const start = this.sequence++;
+    this.markCreated(this.interpreter.environment, start);
+    if (!/Expression$/.test(event.node.type)) return;
+    this.evaluations.push({ instruction: event.instruction, start, tainted: false });
+  }
+
+  private exit(event: InterpreterAfterNodeEvent) {
+    const creating = creatingTypes.has(event.node.type) || this.pureCalls.has(event.node);
+    if (creating && !isPrimitive(event.result) && !this.created.has(event.result)) {
+      this.created.set(event.result, this.sequence);
+    }
+    if (!/Expression$/.test(event.node.type)) return;
+    const index = this.evaluations.map(evaluation => evaluation.instruction).lastIndexOf(event.instruction);
+    if (index === -1) {
+      // it was suspended, e.g. by a yield, while other evaluations completed
+      this.variable.add(event.node);
+      return;
+    }
+    // the evaluations above it threw or were suspended
+    this.evaluations.splice(index + 1).forEach(evaluation => this.variable.add(evaluation.instruction.node));
+    const evaluation = this.evaluations.pop()!;
+    const { node, result } = event;
+    if (evaluation.tainted || !isPrimitive(result)) {
+      this.variable.add(node);
+    } else if (this.constants.has(node)) {
+      if (!Object.is(this.constants.get(node), result)) this.variable.add(node);
+    } else {
+      this.constants.set(node, result);
+    }
+  }
+
+  // Environments are created when they are entered, or when a variable is bound in them before that.
+  private markCreated(environment: Environment, sequence: number) {
+    if (!this.created.has(environment)) this.created.set(environment, sequence);
+  }
+
+  // Taints the evaluations that started before the target was created, all of them without a target.
+  private taint(target?: object) {
+    const created = target && this.created.has(target) ? this.created.get(target)! : -1;
+    for (let i = this.evaluations.length - 1; i >= 0 && this.evaluations[i].start >= created; i--) {
+      this.evaluations[i].tainted = true;
+    }
+  }
+
+  private variableWritten(event: InterpreterVariableWriteEvent) {
+    const environment = this.interpreter.getEnvironment(event.variable);
+    if (environment) this.markCreated(environment, this.sequence);
+    this.taint(environment);
+  }
+
+  private propertyGet(event: InterpreterPropertyEvent) {
+    const { object, value } = event;
+    if (isPrimitive(value) && !isPrimitive(object) && !this.created.has(object)) this.taint();
+  }
+
+  private propertySet(event: InterpreterPropertyEvent) {
+    this.taint(isPrimitive(event.object) ? undefined : event.object);
+  }
+
+  private called(event: InterpreterCallEvent) {
+    const { interpretedCalls, evalFunction, functionConstructor } = this.interpreter;
+    const callee = event.fn;
+    // interpreted code reports its own side effects
+    if (interpretedCalls.has(callee) || callee === evalFunction || callee === functionConstructor) return;
+    const global = this.getGlobal();
+    const { call, apply } = global.Function.prototype;
+    if ((callee === call || callee === apply) && interpretedCalls.has(event.thisArg)) return;
+    const pure =
+      this.pureFunctions.has(callee) ||
+      getPureFunctions(global).has(callee) ||
+      // methods of primitives, e.g. of strings, can't change anything
+      (event.node.type !== 'NewExpression' && event.thisArg != null && isPrimitive(event.thisArg));
+    if (pure) this.pureCalls.add(event.node);
+    else this.taint(event.node.type === 'NewExpression' || isPrimitive(event.thisArg) ? undefined : event.thisArg);
+  }
+
+  private getGlobal() {
+    return this.interpreter.realm ? this.interpreter.realm.global : global;
+  }
+}
@@ -0,0 +1,212 @@
+import vm from 'vm';
+import { BasicContext, hostGlobal, standardGlobals } from './context';
+import { isError } from './util';
+
+// Intrinsics that aren't reachable by a global name, evaluated in both realms to pair them up.
+const hiddenIntrinsics = [
+  'Object.getPrototypeOf(function*() {})',
+  'Object.getPrototypeOf(function*() {}).prototype',
+  'Object.getPrototypeOf(Object.getPrototypeOf(function*() {}).prototype)',
+  'Object.getPrototypeOf(async function() {})',
+  'Object.getPrototypeOf(async function*() {})',
+  'Object.getPrototypeOf(async function*() {}).prototype',
+  'Object.getPrototypeOf(Object.getPrototypeOf(async function*() {}).prototype)',
+  'Object.getPrototypeOf([][Symbol.iterator]())',
+  'Object.getPrototypeOf(new Map()[Symbol.iterator]())',
+  'Object.getPrototypeOf(new Set()[Symbol.iterator]())',
+  'Object.getPrototypeOf(""[Symbol.iterator]())',
+  'Object.getPrototypeOf(/a/[Symbol.matchAll](""))',
+  'Object.getPrototypeOf(Uint8Array)',
+  'Object.getPrototypeOf(Uint8Array.prototype)',
+];
+
+function isObject(value: any): value is object {
+  return (typeof value === 'object' && value !== null) || typeof value === 'function';
+}
+
+const hasOwn = (object: object, key: PropertyKey) => Object.prototype.hasOwnProperty.call(object, key);
+
+// A fresh set of intrinsics for interpreted code in isolated mode, so that changes to built-ins like
+// `Array.prototype` stay out of the host. Code generation from strings is disabled in the realm, so its
+// `Function` and `eval` can't be used to reach the host either.
+export class Realm {
+  global: any;
+  // host intrinsics and their counterparts in the realm
+  intrinsics = new Map<any, any>();
+  // the other way around
+  private hostIntrinsics = new Map<any, any>();
+  // exposed host values by their proxies
+  private proxies: WeakMap<object, any>;
+  private exposed = new WeakMap<object, object>();
+
+  constructor(proxies: WeakMap<object, any> = new WeakMap()) {
+    this.proxies = proxies;
+    const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+    this.global = vm.runInContext('globalThis', context);
+    const host = hostGlobal;
+    const pair = (hostValue: any, freshValue: any) => {
+      if (isObject(hostValue) && isObject(freshValue)) {
+        this.intrinsics.set(hostValue, freshValue);
+        this.hostIntrinsics.set(freshValue, hostValue);
+      }
+    };
+    for (const name of standardGlobals) {
+      if (!(name in host) || !(name in this.global)) continue;
+      pair(host[name], this.global[name]);
+      if (typeof host[name] === 'function') pair(host[name].prototype, this.global[name].prototype);
+    }
+    pair(host.Function, this.global.Function);
+    pair(host.Function.prototype, this.global.Function.prototype);
+    for (const source of hiddenIntrinsics) {
+      pair(vm.runInThisContext(source), vm.runInContext(source, context));
+    }
+  }
+
+  // Creates the global context of interpreted code from the realm's built-ins and the allowed host values.
+  createContext(allowed: BasicContext = {}): BasicContext {
+    const context: BasicContext = Object.create(this.global.Object.prototype);
+    for (const name of standardGlobals) {
+      if (name in this.global) context[name] = this.global[name];
+    }
+    for (const name of Object.keys(allowed)) context[name] = this.expose(allowed[name]);
+    context.globalThis = context;
+    return context;
+  }
+
+  // Returns the realm's counterpart of a host intrinsic, or the value itself.
+  toFresh(value: any) {
+    const fresh = this.intrinsics.get(value);
+    return fresh === undefined ? value : fresh;
+  }
+
+  // Copies an error of the realm's built-in error classes, e.g. `new TypeError()` in interpreted code, into an error
+  // of the host's class with the same message and stack. Other values are returned as they are.
+  toHostError(value: any) {
+    if (!isObject(value) || !isError(value)) return value;
+    const prototype = this.hostIntrinsics.get(Object.getPrototypeOf(value));
+    if (prototype === undefined) return value;
+    const error = new prototype.constructor();
+    for (const key of Reflect.ownKeys(value)) {
+      Object.defineProperty(error, key, Reflect.getOwnPropertyDescriptor(value, key)!);
+    }
+    return error;
+  }
+
+  // Moves an object the interpreter created onto the realm's prototypes, e.g. the array of an array literal.
+  adopt<T>(value: T): T {
+    if (!isObject(value)) return value;
+    const prototype = Object.getPrototypeOf(value);
+    const fresh = this.intrinsics.get(prototype);
+    if (fresh !== undefined) Object.setPrototypeOf(value, fresh);
+    return value;
+  }
+
+  // Reads a property of a primitive through the realm's wrapper objects.
+  getPrimitiveProperty(value: any, property: PropertyKey) {
+    return Reflect.get(this.global.Object(value), property, value);
+  }
+
+  private isFromRealm(value: object) {
+    let prototype = Object.getPrototypeOf(value);
+    while (prototype !== null) {
+      if (prototype === this.global.Object.prototype) return true;
+      prototype = Object.getPrototypeOf(prototype);
+    }
+    return false;
+  }
+
+  // Exposes a host value to interpreted code. Objects are wrapped in copy-on-write proxies: interpreted
+  // code sees the host object and its prototypes, but what it writes only changes the proxy.
+  expose(value: any): any {
+    if (!isObject(value)) return value;
+    const fresh = this.intrinsics.get(value);
+    if (fresh !== undefined) return fresh;
+    if (this.proxies.has(value) || this.isFromRealm(value)) return value;
+    const existing = this.exposed.get(value);
+    if (existing) return existing;
+
+    const real: any = value;
+    const realm = this;
+    const deleted = new Set<PropertyKey>();
+    let prototypeOverride: { value: object | null } | null = null;
+    // the target holds the writes, a bound function can be called and constructed and has no `prototype`
+    const target: any = typeof real === 'function' ? function() {}.bind(null) : {};
+    if (typeof real === 'function') {
+      delete target.length;
+      delete target.name;
+    }
+    const unwrap = (arg: any) => (isObject(arg) && realm.proxies.has(arg) ? realm.proxies.get(arg) : arg);
+    const hasRealOwn = (key: PropertyKey) => !deleted.has(key) && hasOwn(real, key);
+
+    const proxy: any = new Proxy(target, {
+      getPrototypeOf() {
+        if (prototypeOverride) return prototypeOverride.value;
+        return realm.expose(Object.getPrototypeOf(real));
+      },
+      setPrototypeOf(target, prototype) {
+        prototypeOverride = { value: prototype };
+        return true;
+      },
+      isExtensible(target) {
+        return Reflect.isExtensible(target);
+      },
+      preventExtensions() {
+        return false;
+      },
+      getOwnPropertyDescriptor(target, key) {
+        if (hasOwn(target, key)) return Reflect.getOwnPropertyDescriptor(target, key);
+        if (!hasRealOwn(key)) return undefined;
+        const descriptor = Reflect.getOwnPropertyDescriptor(real, key)!;
+        descriptor.configurable = true;
+        if ('value' in descriptor) descriptor.value = realm.expose(descriptor.value);
+        if (descriptor.get) descriptor.get = realm.expose(descriptor.get);
+        if (descriptor.set) descriptor.set = realm.expose(descriptor.set);
+        return descriptor;
+      },
+      defineProperty(target, key, descriptor) {
+        deleted.delete(key);
+        return Reflect.defineProperty(target, key, descriptor);
+      },
+      deleteProperty(target, key) {
+        if (hasOwn(target, key) && !Reflect.deleteProperty(target, key)) return false;
+        if (hasOwn(real, key)) deleted.add(key);
+        return true;
+      },
+      has(target, key) {
+        if (hasOwn(target, key) || hasRealOwn(key)) return true;
+        const prototype = Reflect.getPrototypeOf(proxy);
+        return prototype !== null && Reflect.has(prototype, key);
+      },
+      ownKeys(target) {
+        const keys = Reflect.ownKeys(target);
+        for (const key of Reflect.ownKeys(real)) {
+          if (!deleted.has(key) && !keys.includes(key)) keys.push(key);
+        }
+        return keys;
+      },
+      get(target, key, receiver) {
+        if (hasOwn(target, key)) return Reflect.get(target, key, receiver);
+        if (hasRealOwn(key)) return realm.expose(Reflect.get(real, key));
+        const prototype = Reflect.getPrototypeOf(proxy);
+        return prototype === null ? undefined : Reflect.get(prototype, key, receiver);
+      },
+      set(target, key, value, receiver) {
+        if (receiver !== proxy) {
+          return Reflect.defineProperty(receiver, key, { value, writable: true, enumerable: true, configurable: true });
+        }
+        deleted.delete(key);
+        if (hasOwn(target, key)) return Reflect.set(target, key, value);
+        return Reflect.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+      },
+      apply(target, thisArg, args) {
+        return realm.expose(Reflect.apply(real, unwrap(thisArg), args.map(unwrap)));
+      },
+      construct(target, args) {
+        return realm.expose(Reflect.construct(real, args.map(unwrap)));
+      },
+    });
+    this.proxies.set(proxy, real);
+    this.exposed.set(real, proxy);
+    return proxy;
+  }
+}
@@ -0,0 +1,113 @@
+import DEBUG from 'debug';
+import { Script } from 'shift-ast';
+import { parseScript } from 'shift-parser';
+import * as codegen from 'shift-printer';
+import { inspect } from 'util';
+import { Interpreter } from './interpreter';
+import { createReadlineInterface } from './util';
+
+const debug = DEBUG('shift-interpreter:repl');
+
+const help = `.help             Show this help
+.list             List the statements of the loaded script
+.run [index]      Run the loaded script or the statement at index
+.print [index]    Print the current node or the statement at index
+.vars [name]      Show the global variables or the value of one
+.exit             Exit the REPL
+Anything else is evaluated in the loaded script's scope.`;
+
+function format(value: any) {
+  return inspect(value, { depth: 2, colors: false });
+}
+
+// Evaluates input against a loaded script, keeping the state of the interpreter between inputs.
+export class Repl {
+  interpreter: Interpreter;
+  script: Script;
+
+  constructor(interpreter: Interpreter, script: Script) {
+    this.interpreter = interpreter;
+    this.script = script;
+  }
+
+  // Evaluates a line of input, either a meta-command or source, and returns the output to print.
+  evaluate(line: string): string {
+    const input = line.trim();
+    if (input === '') return '';
+    try {
+      if (input.startsWith('.')) {
+        const [command, ...args] = input.split(/\s+/);
+        return this.command(command, args);
+      }
+      return format(this.evaluateSource(input));
+    } catch (e) {
+      return `Uncaught ${e instanceof Error ? `${e.name}: ${e.message}` : format(e)}`;
+    }
+  }
+
+  evaluateSource(source: string) {
+    debug('evaluating input');
+    const input = parseScript(source);
+    this.interpreter.extend(input);
+    return this.interpreter.run(input);
+  }
+
+  private command(command: string, args: string[]): string {
+    switch (command) {
+      case '.help':
+        return help;
+      case '.list':
+        return this.script.statements
+          .map((statement, index) => `${index}: ${codegen.printSummary(statement)}`)
+          .join('\n');
+      case '.run':
+        if (args.length === 0) return format(this.interpreter.run());
+        return format(this.interpreter.run(this.getStatement(args[0])));
+      case '.print':
+        return this.interpreter.print(args.length === 0 ? undefined : this.getStatement(args[0]));
+      case '.vars':
+        return this.variables(args[0]);
+      default:
+        return `Unknown command ${command}, see .help`;
+    }
+  }
+
+  private getStatement(index: string) {
+    const statement = this.script.statements[Number(index)];
+    if (!/^\d+$/.test(index) || !statement) throw new RangeError(`No statement at index ${index}`);
+    return statement;
+  }
+
+  private variables(name?: string) {
+    const variables = this.interpreter.globalVariables;
+    if (name !== undefined) {
+      const variable = variables.get(name);
+      if (!variable) throw new ReferenceError(`${name} is not defined`);
+      return format(this.interpreter.getVariableValue(variable));
+    }
+    const lines = [];
+    for (const [name, variable] of variables) {
+      // undeclared names are looked up in the context
+      if (variable.declarations.length === 0) continue;
+      let value;
+      try {
+        value = format(this.interpreter.getVariableValue(variable));
+      } catch (e) {
+        value = '<uninitialized>';
+      }
+      lines.push(`${name}: ${value}`);
+    }
+    return lines.join('\n');
+  }
+
+  async start(prompt = '> ') {
+    const question = createReadlineInterface();
+    while (true) {
+      const line = await question(prompt);
+      if (line === null || line.trim() === '.exit') break;
+      const output = this.evaluate(line);
+      if (output !== '') console.log(output);
+    }
+    question.close();
+  }
+}
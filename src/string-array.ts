@@ -0,0 +1,200 @@
+import {
+  ArrayExpression,
+  CallExpression,
+  Expression,
+  ExpressionStatement,
+  FunctionDeclaration,
+  Node,
+  Statement,
+  VariableDeclarationStatement,
+} from 'shift-ast';
+import { Variable } from 'shift-scope';
+import { Interpreter } from './interpreter';
+import { forEachNode } from './util';
+
+export interface StringArrayDecoderOptions {
+  // the least number of strings an array literal needs to be taken for the string array
+  minLength?: number;
+}
+
+// The top level statements of a script that decode its strings, in the layout of javascript-obfuscator and similar
+// tools. The array is either declared as a variable or returned by a function, the rotation is an IIFE that shifts
+// the array into place and the decoders are the functions that look strings up in the array, usually with a cache.
+export interface StringArrayLayout {
+  array: VariableDeclarationStatement | FunctionDeclaration;
+  rotation: ExpressionStatement | null;
+  decoders: (VariableDeclarationStatement | FunctionDeclaration)[];
+}
+
+function isStringArray(node: Node | null, minLength: number): node is ArrayExpression {
+  return (
+    !!node &&
+    node.type === 'ArrayExpression' &&
+    node.elements.length >= minLength &&
+    node.elements.every(element => !!element && element.type === 'LiteralStringExpression')
+  );
+}
+
+// Literals and operators on them, e.g. the `-0x1 * 0x1f + 0x2a` offsets of newer obfuscators.
+function isStatic(node: Node): boolean {
+  switch (node.type) {
+    case 'LiteralNumericExpression':
+    case 'LiteralStringExpression':
+      return true;
+    case 'UnaryExpression':
+      return node.operator !== 'delete' && isStatic(node.operand);
+    case 'BinaryExpression':
+      return isStatic(node.left) && isStatic(node.right);
+    default:
+      return false;
+  }
+}
+
+function isFunctionStatement(statement: Statement): statement is VariableDeclarationStatement | FunctionDeclaration {
+  if (statement.type === 'FunctionDeclaration') return true;
+  return (
+    statement.type === 'VariableDeclarationStatement' &&
+    statement.declaration.declarators.some(
+      declarator => !!declarator.init && declarator.init.type === 'FunctionExpression',
+    )
+  );
+}
+
+// An IIFE, also when it is negated like `!function() {}()`.
+function isImmediatelyInvoked(expression: Expression): boolean {
+  if (expression.type === 'UnaryExpression') return isImmediatelyInvoked(expression.operand);
+  return (
+    expression.type === 'CallExpression' &&
+    (expression.callee.type === 'FunctionExpression' || expression.callee.type === 'ArrowExpression')
+  );
+}
+
+// Finds the string array of the interpreter's loaded script and the decoder calls of the rest of the script. Only
+// the statements of the layout are run, the strings are then decoded by calling the decoders from the host.
+export class StringArrayDecoder {
+  interpreter: Interpreter;
+  layout: StringArrayLayout | null;
+  private minLength: number;
+
+  constructor(interpreter: Interpreter, options: StringArrayDecoderOptions = {}) {
+    this.interpreter = interpreter;
+    this.minLength = options.minLength === undefined ? 5 : options.minLength;
+    this.layout = this.findLayout();
+  }
+
+  // Runs the statements of the layout and returns the decoded string of each decoder call with static arguments
+  // outside of them, including calls through aliases like `var _0x5a = decoder`. Calls that throw or decode to
+  // something other than a string are left out.
+  decode(): Map<CallExpression, string> {
+    const strings = new Map<CallExpression, string>();
+    const layout = this.layout;
+    if (!layout) return strings;
+    const statements = [layout.array, layout.rotation, ...layout.decoders].filter(Boolean) as Statement[];
+    const script = this.interpreter.loadedScript;
+    const order = (statement: Statement) =>
+      (statement.type === 'FunctionDeclaration' ? 0 : script.statements.length) + script.statements.indexOf(statement);
+    // function declarations first, like they are hoisted when the whole script runs
+    for (const statement of statements.sort((a, b) => order(a) - order(b))) this.interpreter.run(statement);
+
+    const decoders = new Map<Variable, Function>();
+    for (const statement of layout.decoders) {
+      for (const variable of this.getDeclaredVariables(statement)) {
+        const value = this.interpreter.getVariableValue(variable);
+        if (typeof value === 'function') decoders.set(variable, value);
+      }
+    }
+    const aliases = this.findAliases(decoders);
+    for (const statement of script.statements) {
+      if (statements.includes(statement)) continue;
+      forEachNode(statement, node => {
+        if (node.type !== 'CallExpression' || node.callee.type !== 'IdentifierExpression') return;
+        const variable = this.getVariable(node.callee);
+        const decoder = variable && aliases.get(variable);
+        if (!decoder || !node.arguments.every(isStatic)) return;
+        try {
+          const args = node.arguments.map(arg => this.interpreter.run(arg as Expression));
+          const value = decoder(...args);
+          if (typeof value === 'string') strings.set(node, value);
+        } catch (e) {}
+      });
+    }
+    return strings;
+  }
+
+  private findLayout(): StringArrayLayout | null {
+    const statements = this.interpreter.loadedScript.statements;
+    for (const array of statements) {
+      if (!this.declaresStringArray(array)) continue;
+      const variables = this.getDeclaredVariables(array);
+      const referencing = statements.filter(
+        statement => statement !== array && this.getReferencedVariables(statement).some(v => variables.includes(v)),
+      );
+      const decoders = referencing.filter(isFunctionStatement);
+      if (decoders.length === 0) continue;
+      const rotation = referencing.find(
+        (statement): statement is ExpressionStatement =>
+          statement.type === 'ExpressionStatement' && isImmediatelyInvoked(statement.expression),
+      );
+      return { array, rotation: rotation || null, decoders };
+    }
+    return null;
+  }
+
+  private declaresStringArray(statement: Statement): statement is VariableDeclarationStatement | FunctionDeclaration {
+    if (statement.type === 'VariableDeclarationStatement') {
+      return statement.declaration.declarators.some(declarator => isStringArray(declarator.init, this.minLength));
+    }
+    if (statement.type === 'FunctionDeclaration') {
+      return statement.body.statements.some(
+        inner =>
+          (inner.type === 'VariableDeclarationStatement' &&
+            inner.declaration.declarators.some(declarator => isStringArray(declarator.init, this.minLength))) ||
+          (inner.type === 'ReturnStatement' && isStringArray(inner.expression, this.minLength)),
+      );
+    }
+    return false;
+  }
+
+  private getVariable(node: Node): Variable | undefined {
+    const variables = this.interpreter.lookupTable.variableMap.get(node);
+    return variables && variables[0];
+  }
+
+  private getDeclaredVariables(statement: VariableDeclarationStatement | FunctionDeclaration) {
+    const bindings =
+      statement.type === 'FunctionDeclaration'
+        ? [statement.name]
+        : statement.declaration.declarators.map(declarator => declarator.binding);
+    return bindings.map(binding => this.getVariable(binding)).filter(Boolean) as Variable[];
+  }
+
+  private getReferencedVariables(statement: Statement) {
+    const variables: Variable[] = [];
+    forEachNode(statement, node => {
+      if (node.type !== 'IdentifierExpression' && node.type !== 'AssignmentTargetIdentifier') return;
+      const variable = this.getVariable(node);
+      if (variable) variables.push(variable);
+    });
+    return variables;
+  }
+
+  // Maps the decoders and the variables that are initialized with them, anywhere in the script, to the decoders.
+  private findAliases(decoders: Map<Variable, Function>) {
+    const aliases = new Map(decoders);
+    const declarators: [Variable, Variable][] = [];
+    forEachNode(this.interpreter.loadedScript, node => {
+      if (node.type !== 'VariableDeclarator' || !node.init || node.init.type !== 'IdentifierExpression') return;
+      const alias = this.getVariable(node.binding);
+      const target = this.getVariable(node.init);
+      if (alias && target) declarators.push([alias, target]);
+    });
+    // aliases of aliases
+    for (let size = -1; size !== aliases.size; ) {
+      size = aliases.size;
+      for (const [alias, target] of declarators) {
+        if (!aliases.has(alias) && aliases.has(target)) aliases.set(alias, aliases.get(target)!);
+      }
+    }
+    return aliases;
+  }
+}
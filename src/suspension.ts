@@ -0,0 +1,21 @@
+export enum SuspensionType {
+  YIELD = 'yield',
+  AWAIT = 'await',
+  PAUSE = 'pause',
+  CALL = 'call',
+}
+
+// Node handlers yield a Suspension when execution needs to stop midway through a node, e.g. at a
+// `yield` or `await` expression or at a breakpoint. Whatever drives the evaluation decides if and
+// how it is resumed.
+export class Suspension {
+  type: SuspensionType;
+  value: any;
+
+  constructor(type: SuspensionType, value: any) {
+    this.type = type;
+    this.value = value;
+  }
+}
+
+export type Evaluation<T = any> = Generator<Suspension, T, any>;
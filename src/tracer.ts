@@ -0,0 +1,106 @@
+import { SourceSpan } from 'shift-parser';
+import { Node } from 'shift-ast';
+import { performance } from 'perf_hooks';
+import { inspect } from 'util';
+import { Instruction } from './instruction-buffer';
+
+export interface TracerOptions {
+  // only record instructions of these node types
+  nodeTypes?: string[];
+  // the maximum length of a captured value summary, longer summaries are truncated
+  maxValueLength?: number;
+}
+
+export interface TraceEntry {
+  id: number;
+  type: string;
+  // the 1-based line and 0-based column the node starts at, if the interpreter has source locations
+  line: number | null;
+  column: number | null;
+  // the number of frames entered when the instruction was evaluated
+  depth: number;
+  // milliseconds since the tracer was created
+  start: number;
+  duration: number;
+  result?: string;
+  error?: string;
+}
+
+function summarize(value: any, maxLength: number) {
+  let summary;
+  if (typeof value === 'string') summary = JSON.stringify(value);
+  else if (typeof value === 'function') summary = `[Function${value.name ? `: ${String(value.name)}` : ''}]`;
+  else summary = inspect(value, { depth: 0, breakLength: Infinity, maxArrayLength: 10, maxStringLength: maxLength });
+  return summary.length > maxLength ? `${summary.slice(0, maxLength)}…` : summary;
+}
+
+// Records the instructions an interpreter evaluates when assigned to `interpreter.tracer`.
+export class Tracer {
+  entries: TraceEntry[] = [];
+  nodeTypes: Set<string> | null;
+  maxValueLength: number;
+  private origin = performance.now();
+
+  constructor(options: TracerOptions = {}) {
+    this.nodeTypes = options.nodeTypes ? new Set(options.nodeTypes) : null;
+    this.maxValueLength = options.maxValueLength === undefined ? 100 : options.maxValueLength;
+  }
+
+  // Starts the entry of an instruction, returns null if the instruction is filtered out.
+  enter(instruction: Instruction, depth: number, locations?: WeakMap<Node, SourceSpan>): TraceEntry | null {
+    const type = instruction.node.type;
+    if (this.nodeTypes && !this.nodeTypes.has(type)) return null;
+    const location = locations && locations.get(instruction.node);
+    const entry: TraceEntry = {
+      id: instruction.id,
+      type,
+      line: location ? location.start.line : null,
+      column: location ? location.start.column : null,
+      depth,
+      start: performance.now() - this.origin,
+      duration: 0,
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Completes the entry with the instruction's result or the error it threw.
+  exit(entry: TraceEntry, instruction: Instruction, error?: { thrown: any }) {
+    entry.duration = performance.now() - this.origin - entry.start;
+    if (error) entry.error = summarize(error.thrown, this.maxValueLength);
+    else entry.result = summarize(instruction.result, this.maxValueLength);
+  }
+
+  clear() {
+    this.entries = [];
+  }
+
+  // One JSON object per line in the order the instructions started.
+  toJSONLines() {
+    return this.entries.map(entry => JSON.stringify(entry)).join('\n');
+  }
+
+  // The trace event format that chrome://tracing and the performance panel of the devtools load.
+  toChromeTrace() {
+    return {
+      traceEvents: this.entries.map(entry => ({
+        name: entry.type,
+        cat: 'instruction',
+        ph: 'X',
+        // microseconds
+        ts: Math.round(entry.start * 1000),
+        dur: Math.round(entry.duration * 1000),
+        pid: 1,
+        tid: 1,
+        args: {
+          id: entry.id,
+          line: entry.line,
+          column: entry.column,
+          depth: entry.depth,
+          result: entry.result,
+          error: entry.error,
+        },
+      })),
+    };
+  }
+}
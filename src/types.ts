@@ -1,9 +1,15 @@
 import {
+  ArrayAssignmentTarget,
+  ArrayBinding,
   AssignmentTargetIdentifier,
+  AssignmentTargetWithDefault,
   BindingIdentifier,
+  BindingWithDefault,
+  ComputedMemberAssignmentTarget,
   Block,
   DoWhileStatement,
   Expression,
+  ForAwaitStatement,
   ForInStatement,
   ForOfStatement,
   ForStatement,
@@ -13,9 +19,12 @@ import {
   Getter,
   IdentifierExpression,
   Method,
+  ObjectAssignmentTarget,
+  ObjectBinding,
   Script,
   Setter,
   Statement,
+  StaticMemberAssignmentTarget,
   Super,
   VariableDeclarator,
   WhileStatement,
@@ -23,7 +32,26 @@ import {
 
 export type Identifier = BindingIdentifier | IdentifierExpression | AssignmentTargetIdentifier;
 
-export type Loop = ForStatement | WhileStatement | ForOfStatement | ForInStatement | DoWhileStatement;
+// the targets of declarations, parameters and destructuring assignments
+export type BindingTarget =
+  | BindingIdentifier
+  | ArrayBinding
+  | ObjectBinding
+  | BindingWithDefault
+  | AssignmentTargetIdentifier
+  | ArrayAssignmentTarget
+  | ObjectAssignmentTarget
+  | AssignmentTargetWithDefault
+  | StaticMemberAssignmentTarget
+  | ComputedMemberAssignmentTarget;
+
+export type Loop =
+  | ForStatement
+  | WhileStatement
+  | ForOfStatement
+  | ForAwaitStatement
+  | ForInStatement
+  | DoWhileStatement;
 
 export type BlockType = Script | Block | FunctionBody;
 
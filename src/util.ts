@@ -1,9 +1,29 @@
-import { Node, Statement } from 'shift-ast';
+import { ArrayBinding, BindingIdentifier, BindingWithDefault, Node, ObjectBinding, Statement } from 'shift-ast';
 import { BlockType } from './types';
 import { default as nodeReadline } from 'readline';
+import { Debugger } from 'debug';
+
+const statementTypes = new Map<string, boolean>();
 
 export function isStatement(node: Node): node is Statement {
-  return node.type.match(/Statement/) || node.type.match('Declaration') ? true : false;
+  let statement = statementTypes.get(node.type);
+  if (statement === undefined) {
+    statement = node.type.match(/Statement/) || node.type.match('Declaration') ? true : false;
+    statementTypes.set(node.type, statement);
+  }
+  return statement;
+}
+
+const extendedDebuggers = new WeakMap<Debugger, Map<string, Debugger>>();
+
+// Like debug.extend, but creates each namespace once. Creating a debugger checks the terminal it logs to, which
+// is too slow to repeat for every call and binding.
+export function extendDebug(debug: Debugger, namespace: string) {
+  let debuggers = extendedDebuggers.get(debug);
+  if (!debuggers) extendedDebuggers.set(debug, (debuggers = new Map()));
+  let extended = debuggers.get(namespace);
+  if (!extended) debuggers.set(namespace, (extended = debug.extend(namespace)));
+  return extended;
 }
 
 export function isBlockType(node: Node): node is BlockType {
@@ -17,19 +37,144 @@ export function isBlockType(node: Node): node is BlockType {
   }
 }
 
+// The identifiers a binding pattern declares, leaving out those of its default values.
+export function getBindingIdentifiers(
+  binding: BindingIdentifier | ArrayBinding | ObjectBinding | BindingWithDefault,
+): BindingIdentifier[] {
+  switch (binding.type) {
+    case 'BindingIdentifier':
+      return [binding];
+    case 'BindingWithDefault':
+      return getBindingIdentifiers(binding.binding);
+    case 'ArrayBinding': {
+      const elements = binding.elements.filter(<T>(element: T | null): element is T => element !== null);
+      if (binding.rest) elements.push(binding.rest);
+      return ([] as BindingIdentifier[]).concat(...elements.map(getBindingIdentifiers));
+    }
+    case 'ObjectBinding': {
+      const bindings = binding.properties.map(property => property.binding);
+      if (binding.rest) bindings.push(binding.rest);
+      return ([] as BindingIdentifier[]).concat(...bindings.map(getBindingIdentifiers));
+    }
+  }
+}
+
 export function createReadlineInterface() {
   const readline = nodeReadline.createInterface({
     input: process.stdin,
     output: process.stdout,
   });
 
-  return (question: string) => {
-    return new Promise(resolve => {
-      readline.question(question, resolve);
+  // lines that arrive before they are asked for, e.g. piped input, are kept for the next question
+  const lines: string[] = [];
+  const waiting: ((line: string | null) => void)[] = [];
+  let closed = false;
+  readline.on('line', line => {
+    const resolve = waiting.shift();
+    if (resolve) resolve(line);
+    else lines.push(line);
+  });
+  readline.on('close', () => {
+    closed = true;
+    waiting.splice(0).forEach(resolve => resolve(null));
+  });
+
+  // resolves with null once the input ends
+  const question = (question: string) => {
+    return new Promise<string | null>(resolve => {
+      if (lines.length > 0) return resolve(lines.shift()!);
+      if (closed) return resolve(null);
+      readline.setPrompt(question);
+      readline.prompt();
+      waiting.push(resolve);
     });
   };
+  return Object.assign(question, { close: () => readline.close() });
+}
+
+// Also true for the errors of other realms, and subclass instances of Error.
+export function isError(value: any): value is Error {
+  return Object.prototype.toString.call(value) === '[object Error]';
 }
 
 export function toString(obj: any): String {
   return obj.toString ? obj.toString() : '' + obj;
 }
+
+export function getIterator(obj: any): Iterator<any> {
+  const method = obj === null || obj === undefined ? undefined : obj[Symbol.iterator];
+  if (typeof method !== 'function') {
+    throw new TypeError(`${typeof obj === 'object' && obj !== null ? 'object' : String(obj)} is not iterable`);
+  }
+  return method.call(obj);
+}
+
+export function closeIterator(iterator: Iterator<any>) {
+  if (typeof iterator.return === 'function') iterator.return();
+}
+
+export function createArgumentsObject(args: any[]): IArguments {
+  return Reflect.apply(
+    function() {
+      return arguments;
+    },
+    null,
+    args,
+  );
+}
+
+const singleCharacterEscapes: { [char: string]: string } = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v' };
+
+// Template elements keep their line terminators as written, both their values use \n.
+export function normalizeTemplateValue(raw: string) {
+  return raw.replace(/\r\n?/g, '\n');
+}
+
+// The cooked value of a template element from its normalized raw value, undefined if it has an escape sequence
+// that is invalid, which only tagged templates allow.
+export function cookTemplateValue(raw: string): string | undefined {
+  let cooked = '';
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== '\\') {
+      cooked += raw[i];
+      continue;
+    }
+    const char = raw[++i];
+    if (char in singleCharacterEscapes) {
+      cooked += singleCharacterEscapes[char];
+    } else if (char === '\n' || char === '\u2028' || char === '\u2029') {
+      // line continuations are left out
+    } else if (char === '0' && !/[0-9]/.test(raw[i + 1] || '')) {
+      cooked += '\0';
+    } else if (/[0-9]/.test(char)) {
+      return undefined;
+    } else if (char === 'x') {
+      const hex = raw.slice(i + 1, i + 3);
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) return undefined;
+      cooked += String.fromCharCode(parseInt(hex, 16));
+      i += 2;
+    } else if (char === 'u') {
+      const end = raw[i + 1] === '{' ? raw.indexOf('}', i) : i + 4;
+      const hex = raw[i + 1] === '{' ? raw.slice(i + 2, end) : raw.slice(i + 1, end + 1);
+      if (end === -1 || !/^[0-9a-fA-F]+$/.test(hex) || (raw[i + 1] !== '{' && hex.length !== 4)) return undefined;
+      if (parseInt(hex, 16) > 0x10ffff) return undefined;
+      cooked += String.fromCodePoint(parseInt(hex, 16));
+      i = end;
+    } else {
+      cooked += char;
+    }
+  }
+  return cooked;
+}
+
+// Calls back with the node and then each of its descendants, depth first.
+export function forEachNode(node: Node, callback: (node: Node) => void) {
+  callback(node);
+  for (const child of Object.values(node)) {
+    if (Array.isArray(child)) {
+      child.forEach(element => element && typeof element.type === 'string' && forEachNode(element, callback));
+    } else if (child && typeof child.type === 'string') {
+      forEachNode(child, callback);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter } from '../../src';
+import { assertResult, compareAsync } from '../util';
+
+describe('Async functions', () => {
+  it('should return promises from async functions', async () => {
+    assertResult(await compareAsync(`async function f() { return 1; } f();`));
+    assertResult(await compareAsync(`const f = async function() { return 2; }; f();`));
+    assertResult(await compareAsync(`const f = async () => 3; f();`));
+    assertResult(await compareAsync(`const o = { async m() { return this.x; }, x: 4 }; o.m();`));
+    assertResult(await compareAsync(`async function f() {} f() instanceof Promise;`, { Promise }));
+  });
+  it('should await host promises and plain values', async () => {
+    assertResult(
+      await compareAsync(
+        `async function f(p) { const a = await p; const b = await 2; return a + b; } f(Promise.resolve(1));`,
+        {
+          Promise,
+        },
+      ),
+    );
+    assertResult(
+      await compareAsync(
+        `const wait = v => new Promise(resolve => setTimeout(() => resolve(v), 1)); (async () => (await wait('a')) + (await wait('b')))();`,
+        { Promise, setTimeout },
+      ),
+    );
+  });
+  it('should run synchronously until the first await', async () => {
+    assertResult(
+      await compareAsync(
+        `const log = []; async function f() { log.push(1); await null; log.push(3); } const p = f(); log.push(2); p.then(() => log);`,
+      ),
+    );
+  });
+  it('should reject with the original thrown value', async () => {
+    assertResult(await compareAsync(`async function f() { throw new Error('boom'); } f();`, { Error }));
+    assertResult(await compareAsync(`async function f() { undefinedFunction(); } f();`));
+    const interpreter = new Interpreter();
+    const thrown = { reason: 'custom' };
+    interpreter.load(parseScript(`(async () => { await null; throw thrown; })();`), { thrown });
+    const error = await interpreter.run().then(
+      () => null,
+      (e: any) => e,
+    );
+    chai.expect(error).to.equal(thrown);
+  });
+  it('should throw rejections into the awaiting frame', async () => {
+    assertResult(
+      await compareAsync(
+        `async function f() { try { await Promise.reject(new Error('nope')); } catch (e) { return 'caught ' + e.message; } finally { log.push('finally'); } } const log = []; f().then(v => [v, log]);`,
+        { Promise, Error },
+      ),
+    );
+  });
+  it('should keep frames separate while several are suspended', async () => {
+    assertResult(
+      await compareAsync(
+        `
+        const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+        const log = [];
+        async function worker(name, n) {
+          let total = 0;
+          for (let i = 0; i < n; i++) {
+            await tick();
+            total += i;
+            log.push(name + i);
+          }
+          return name + total;
+        }
+        Promise.all([worker('a', 3), worker('b', 2), worker('c', 4)]).then(results => [results, log.length]);
+      `,
+        { Promise, setTimeout },
+      ),
+    );
+  });
+  it('should not be constructors', async () => {
+    assertResult(await compareAsync(`async function f() {} try { new f(); } catch (e) { e.message; }`));
+  });
+});
+
+describe('for await', () => {
+  it('should consume async iterables', async () => {
+    assertResult(
+      await compareAsync(
+        `
+        const iterable = {
+          [Symbol.asyncIterator]() {
+            let i = 0;
+            return { next: () => Promise.resolve({ value: i, done: i++ >= 3 }) };
+          },
+        };
+        (async () => { const seen = []; for await (const v of iterable) seen.push(v); return seen; })();
+      `,
+        { Promise, Symbol },
+      ),
+    );
+  });
+  it('should await the values of sync iterables', async () => {
+    assertResult(
+      await compareAsync(
+        `(async () => { let sum = 0; for await (const v of [1, Promise.resolve(2), 3]) sum += v; return sum; })();`,
+        { Promise },
+      ),
+    );
+  });
+  it('should close the iterator on early exit', async () => {
+    assertResult(
+      await compareAsync(
+        `
+        const log = [];
+        const iterable = {
+          [Symbol.asyncIterator]() {
+            let i = 0;
+            return {
+              next: () => Promise.resolve({ value: i++, done: false }),
+              return: () => { log.push('closed'); return Promise.resolve({ done: true }); },
+            };
+          },
+        };
+        (async () => { for await (const v of iterable) { if (v === 2) break; log.push(v); } return log; })();
+      `,
+        { Promise, Symbol },
+      ),
+    );
+  });
+});
+
+describe('Async generators', () => {
+  it('should yield and await', async () => {
+    assertResult(
+      await compareAsync(
+        `
+        async function* g() { yield 1; const x = await Promise.resolve(2); yield x; return 3; }
+        (async () => { const it = g(); return [await it.next(), await it.next(), await it.next(), await it.next()]; })();
+      `,
+        { Promise },
+      ),
+    );
+  });
+  it('should be consumed by for await', async () => {
+    assertResult(
+      await compareAsync(
+        `
+        async function* g(n) { for (let i = 0; i < n; i++) yield Promise.resolve(i * 2); }
+        (async () => { const seen = []; for await (const v of g(3)) seen.push(v); return seen; })();
+      `,
+        { Promise },
+      ),
+    );
+  });
+  it('should queue requests made before the previous one settles', async () => {
+    assertResult(
+      await compareAsync(
+        `async function* g() { yield 'a'; yield 'b'; } const it = g(); Promise.all([it.next(), it.next(), it.next(), it.return('r')]);`,
+        { Promise },
+      ),
+    );
+  });
+});
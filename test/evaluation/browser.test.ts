@@ -0,0 +1,92 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { BrowserEnvironment, BrowserLogType, Interpreter } from '../../src';
+
+function runInBrowser(src: string, environment = new BrowserEnvironment()) {
+  const interpreter = new Interpreter();
+  environment.attach(interpreter);
+  interpreter.load(parseScript(src), environment.window);
+  return interpreter.run();
+}
+
+describe('Browser environment', () => {
+  it('should provide the browser globals', () => {
+    const environment = new BrowserEnvironment({ url: 'https://example.org/page?q=1', userAgent: 'test' });
+    const result = runInBrowser(
+      `[window === self, window.document === document, location.hostname, location.search, navigator.userAgent, atob(btoa('x')), typeof Math.max]`,
+      environment,
+    );
+    chai.expect(result).to.deep.equal([true, true, 'example.org', '?q=1', 'test', 'x', 'function']);
+  });
+  it('should record accesses and calls', () => {
+    const environment = new BrowserEnvironment();
+    runInBrowser(`navigator.webdriver; document.title = 'changed'; localStorage.setItem('a', 1);`, environment);
+    chai.expect(environment.log.map(entry => [entry.type, entry.path, entry.args])).to.deep.equal([
+      [BrowserLogType.GET, 'navigator.webdriver', undefined],
+      [BrowserLogType.SET, 'document.title', undefined],
+      [BrowserLogType.GET, 'localStorage.setItem', undefined],
+      [BrowserLogType.CALL, 'localStorage.setItem', ['a', 1]],
+    ]);
+    chai.expect(environment.log[0].value).to.equal(false);
+    chai.expect(environment.log[1].value).to.equal('changed');
+    chai.expect(environment.document.title).to.equal('changed');
+  });
+  it('should keep cookies', () => {
+    const environment = new BrowserEnvironment({ cookie: 'a=1' });
+    const result = runInBrowser(
+      `document.cookie = 'b=2; path=/'; document.cookie = 'a=; max-age=0'; document.cookie;`,
+      environment,
+    );
+    chai.expect(result).to.equal('b=2');
+    const writes = environment.log.filter(
+      entry => entry.type === BrowserLogType.SET && entry.path === 'document.cookie',
+    );
+    chai.expect(writes.map(entry => entry.value)).to.deep.equal(['b=2; path=/', 'a=; max-age=0']);
+  });
+  it('should record injected scripts and evaluated strings', () => {
+    const environment = new BrowserEnvironment();
+    runInBrowser(
+      `
+      const script = document.createElement('script');
+      script.src = 'https://example.org/payload.js';
+      document.head.appendChild(script);
+      document.write('<script>inline()</script>');
+      eval('1 + 1');
+      Function('a', 'return a');
+      setTimeout('later()', 10);
+    `,
+      environment,
+    );
+    const recorded = environment.log
+      .filter(entry => entry.type === BrowserLogType.SCRIPT || entry.type === BrowserLogType.EVAL)
+      .map(entry => [entry.type, entry.path, entry.value]);
+    chai.expect(recorded).to.deep.equal([
+      ['script', 'document', 'https://example.org/payload.js'],
+      ['script', 'document', '<script>inline()</script>'],
+      ['eval', 'eval', '1 + 1'],
+      ['eval', 'Function', '(function anonymous(a\n) {\nreturn a\n})'],
+      ['eval', 'setTimeout', 'later()'],
+    ]);
+    chai.expect(environment.document.head.childNodes[0].src).to.equal('https://example.org/payload.js');
+  });
+  it('should run timers on the virtual clock', () => {
+    const environment = new BrowserEnvironment({ now: 1000 });
+    runInBrowser(
+      `
+      setTimeout(() => (document.title += 'timeout ' + Date.now() + ';'), 100);
+      let count = 0;
+      const interval = setInterval(() => {
+        document.title += 'interval ' + performance.now() + ';';
+        if (++count === 3) clearInterval(interval);
+      }, 40);
+    `,
+      environment,
+    );
+    chai.expect(environment.clock.pending).to.equal(2);
+    chai.expect(environment.clock.advance(50)).to.equal(1);
+    chai.expect(environment.clock.now).to.equal(1050);
+    chai.expect(environment.clock.runAll()).to.equal(3);
+    chai.expect(environment.clock.pending).to.equal(0);
+    chai.expect(environment.document.title).to.equal('interval 40;interval 80;timeout 1100;interval 120;');
+  });
+});
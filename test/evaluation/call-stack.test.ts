@@ -0,0 +1,77 @@
+import chai from 'chai';
+import { parseScript, parseScriptWithLocation } from 'shift-parser';
+import { Interpreter } from '../../src';
+
+function load(src: string, context = {}) {
+  const interpreter = new Interpreter();
+  const { tree, locations } = parseScriptWithLocation(src);
+  interpreter.load(tree, context, locations, 'sample.js');
+  return interpreter;
+}
+
+describe('Call stack', () => {
+  it('should give errors created in interpreted code the interpreted call stack', () => {
+    const interpreter = load(
+      `function inner() {
+  return new Error('boom');
+}
+const outer = () => inner();
+outer().stack;`,
+      { Error },
+    );
+    chai
+      .expect(interpreter.run())
+      .to.equal('Error: boom\n    at inner (sample.js:2:10)\n    at sample.js:4:21\n    at sample.js:5:1');
+  });
+  it('should give errors thrown by host functions the stack where they were thrown', () => {
+    const interpreter = load(
+      `function thrower() { null.x; }
+var stack;
+try {
+  [1].map(function cb() { thrower(); });
+} catch (e) {
+  stack = e.stack;
+}
+stack;`,
+    );
+    chai
+      .expect(
+        interpreter
+          .run()
+          .split('\n')
+          .slice(1),
+      )
+      .to.deep.equal(['    at thrower (sample.js:1:22)', '    at cb (sample.js:4:27)', '    at sample.js:4:3']);
+  });
+  it('should keep the stack of errors that are rethrown', () => {
+    const interpreter = load(
+      `function create() { return TypeError('x'); }
+function rethrow(e) { throw e; }
+try { rethrow(create()); } catch (e) { e.stack; }`,
+      { TypeError },
+    );
+    chai.expect(interpreter.run()).to.equal('TypeError: x\n    at create (sample.js:1:28)\n    at sample.js:3:15');
+  });
+  it('should return the frames with their function and call site', () => {
+    const frames: any[] = [];
+    const interpreter = new Interpreter();
+    const tree = parseScript(`
+      class A { constructor() { report(); } }
+      function f() { return [0].map(() => new A()); }
+      f();
+    `);
+    interpreter.load(tree, { report: () => frames.push(...interpreter.getCallStack()) });
+    interpreter.run();
+    chai.expect(frames.map(frame => frame.name)).to.deep.equal(['A', '', 'f', '']);
+    chai
+      .expect(frames.map(frame => frame.node && frame.node.type))
+      .to.deep.equal(['Method', 'ArrowExpression', 'FunctionDeclaration', null]);
+    chai
+      .expect(frames.map(frame => frame.callSite && frame.callSite.type))
+      .to.deep.equal(['NewExpression', 'CallExpression', 'CallExpression', null]);
+    // the arrow function is called by Array.prototype.map, from the call of `map`
+    // @ts-ignore
+    chai.expect(frames[1].callSite).to.equal(tree.statements[1].body.statements[0].expression);
+    chai.expect(interpreter.getCallStack()).to.deep.equal([]);
+  });
+});
@@ -1,3 +1,6 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter } from '../../src';
 import { assertResult, compare } from '../util';
 
 describe('Classes', () => {
@@ -16,3 +19,131 @@ describe('Classes', () => {
     );
   });
 });
+
+describe('Derived classes', () => {
+  it('should construct through super()', () => {
+    assertResult(
+      compare(
+        `class A { constructor(x) { this.x = x; } } class B extends A { constructor(x, y) { super(x * 2); this.y = y; } } const b = new B(1, 2); [b.x, b.y, b instanceof A, b instanceof B, b.constructor === B];`,
+      ),
+    );
+  });
+  it('should initialize this of the constructor when super() is called in an arrow function', () => {
+    assertResult(
+      compare(
+        `class A { constructor() { this.a = 0; } } class B extends A { constructor() { const init = () => super(); init(); this.x = 1; } } const b = new B(); [b.a, b.x, b instanceof B];`,
+      ),
+    );
+    assertResult(
+      compare(
+        `class A {} class B extends A { constructor() { const self = () => this; const init = () => (() => super())(); init(); this.same = self() === this; } } new B().same;`,
+      ),
+    );
+  });
+  it('should pass arguments through default derived constructors', () => {
+    assertResult(compare(`class A { constructor(a, b) { this.sum = a + b; } } class B extends A {} new B(2, 3).sum;`));
+  });
+  it('should not allow this before super()', () => {
+    assertResult(
+      compare(
+        `class A {} class B extends A { constructor() { this.x = 1; super(); } } try { new B(); } catch (e) { e.constructor.name + ': ' + e.message; }`,
+      ),
+    );
+    assertResult(
+      compare(
+        `class A {} class B extends A { constructor() {} } try { new B(); } catch (e) { e.constructor.name + ': ' + e.message; }`,
+      ),
+    );
+    assertResult(
+      compare(
+        `class A {} class B extends A { constructor() { super(); super(); } } try { new B(); } catch (e) { e.constructor.name + ': ' + e.message; }`,
+      ),
+    );
+  });
+  it('should resolve super.method() through the home object', () => {
+    assertResult(
+      compare(
+        `class A { name() { return 'A' + this.suffix; } } class B extends A { name() { return 'B' + super.name(); } } class C extends B { name() { return 'C' + super['name'](); } } const c = new C(); c.suffix = '!'; c.name();`,
+      ),
+    );
+    assertResult(
+      compare(
+        `const base = { greet() { return 'hi ' + this.who; } }; const o = { __proto__: base, who: 'o', greet() { return super.greet() + '!'; } }; o.greet();`,
+      ),
+    );
+  });
+  it('should support super property access in constructors, arrows and static methods', () => {
+    assertResult(
+      compare(
+        `class A { static create() { return 'A.create'; } kind() { return 'a'; } } class B extends A { static create() { return 'B>' + super.create(); } constructor() { super(); this.k = (() => super.kind())(); } } [B.create(), new B().k];`,
+      ),
+    );
+  });
+  it('should extend host classes', () => {
+    assertResult(
+      compare(
+        `class MyError extends Error { constructor(m) { super(m); this.name = 'MyError'; } } const e = new MyError('bad'); [e instanceof Error, e.message, e.name, String(e)];`,
+        { Error, String },
+      ),
+    );
+    assertResult(
+      compare(
+        `class List extends Array { sum() { return this.reduce((a, b) => a + b, 0); } } const l = new List(); l.push(1, 2, 3); [l.length, l.sum(), Array.isArray(l)];`,
+        { Array },
+      ),
+    );
+  });
+  it('should let host classes extend interpreted classes', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScript(`class A { constructor(x) { this.x = x; } double() { return this.x * 2; } } A;`));
+    const A = interpreter.run();
+    class B extends A {
+      constructor() {
+        super(21);
+      }
+    }
+    const b = new B();
+    chai.expect(b.double()).to.equal(42);
+    chai.expect(b).to.be.instanceOf(A);
+  });
+  it('should require new', () => {
+    assertResult(compare(`class A {} try { A(); } catch (e) { e.message; }`));
+  });
+});
+
+describe('Class expressions and accessors', () => {
+  it('should evaluate class expressions', () => {
+    assertResult(compare(`const Foo = class { m() { return 'm'; } }; new Foo().m();`));
+    assertResult(compare(`const Bar = class extends Array {}; new Bar() instanceof Array;`, { Array }));
+    assertResult(compare(`[class {}].length;`));
+  });
+  it('should bind the name of named class expressions inside the class only', () => {
+    assertResult(
+      compare(`const Foo = class Inner { static self() { return Inner; } }; [Foo.self() === Foo, typeof Inner];`),
+    );
+  });
+  it('should define instance and static getters and setters', () => {
+    assertResult(
+      compare(
+        `class A { constructor() { this._x = 1; } get x() { return this._x; } set x(v) { this._x = v * 2; } static get tag() { return 'A'; } } const a = new A(); a.x = 5; [a.x, A.tag];`,
+      ),
+    );
+    assertResult(compare(`const Foo = class { get x() { return 42; } }; new Foo().x;`));
+  });
+  it('should support computed member names', () => {
+    assertResult(
+      compare(
+        `const key = 'dyn'; const sym = Symbol('s'); class A { [key + 'amic']() { return 1; } get [sym]() { return 2; } static ['s' + 1]() { return 3; } } const a = new A(); [a.dynamic(), a[sym], A.s1()];`,
+        { Symbol },
+      ),
+    );
+  });
+  it('should define members with class property descriptors', () => {
+    assertResult(
+      compare(
+        `class A { m() {} get x() { return 1; } set x(v) {} static s() {} } const d = Object.getOwnPropertyDescriptor(A.prototype, 'x'); [Object.keys(A.prototype), Object.keys(A), Object.getOwnPropertyDescriptor(A.prototype, 'm').enumerable, d.enumerable, typeof d.get, typeof d.set];`,
+        { Object },
+      ),
+    );
+  });
+});
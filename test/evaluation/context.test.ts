@@ -1,6 +1,7 @@
 import { assertResult, compare } from '../util';
 import chai, { expect } from 'chai';
 import spies from 'chai-spies';
+import { createBrowserContext, interpret } from '../../src';
 
 chai.use(spies);
 
@@ -24,4 +25,15 @@ describe('External context', () => {
 
     expect(console.log).to.have.been.called.with('Hello world');
   });
+  it('should provide browser-like globals', () => {
+    assertResult(
+      compare(`[parseInt('42'), JSON.stringify([1]), atob('YQ=='), typeof setTimeout]`, createBrowserContext()),
+    );
+    expect(
+      interpret(`window === self && self === globalThis && window.Math === Math`, createBrowserContext()),
+    ).to.equal(true);
+    expect(
+      interpret(`[typeof require, typeof process, eval('typeof process')]`, createBrowserContext()),
+    ).to.deep.equal(['undefined', 'undefined', 'undefined']);
+  });
 });
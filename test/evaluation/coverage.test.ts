@@ -0,0 +1,81 @@
+import chai from 'chai';
+import { parseScriptWithLocation } from 'shift-parser';
+import { Coverage, Interpreter } from '../../src';
+
+const src = `function f(a) {
+  if (a) {
+    return a > 1 ? 'big' : 'small';
+  }
+  return 'none';
+}
+function unused() {
+  return 1;
+}
+var results = [f(1), f(2)];
+for (var i = 0; i < 2; i++) results.push(i && f(0));
+while (false) {}`;
+
+function cover() {
+  const interpreter = new Interpreter();
+  const { tree, locations } = parseScriptWithLocation(src);
+  interpreter.load(tree, {}, locations);
+  interpreter.coverage = new Coverage();
+  interpreter.run();
+  return { coverage: interpreter.coverage, tree, locations };
+}
+
+describe('Coverage', () => {
+  it('should count statements, functions and branches in the Istanbul format', () => {
+    const { coverage, tree, locations } = cover();
+    const file = coverage.toIstanbul('sample.js', tree, locations)['sample.js'];
+    chai.expect(file.path).to.equal('sample.js');
+    const functions = Object.keys(file.fnMap).map(id => [file.fnMap[id].name, file.fnMap[id].line, file.f[id]]);
+    chai.expect(functions).to.deep.equal([
+      ['f', 1, 3],
+      ['unused', 7, 0],
+    ]);
+    chai.expect(file.fnMap[0].decl).to.deep.equal({ start: { line: 1, column: 9 }, end: { line: 1, column: 10 } });
+    const branches = Object.keys(file.branchMap).map(id => [
+      file.branchMap[id].type,
+      file.branchMap[id].line,
+      file.b[id],
+    ]);
+    chai.expect(branches).to.deep.equal([
+      ['if', 2, [2, 1]],
+      ['cond-expr', 3, [1, 1]],
+      ['for', 11, [2]],
+      ['binary-expr', 11, [2, 1]],
+      ['while', 12, [0]],
+    ]);
+    // the missing else has the location of the if statement
+    chai.expect(file.branchMap[0].locations[1]).to.deep.equal(file.branchMap[0].loc);
+    const statements = Object.keys(file.statementMap).map(id => [file.statementMap[id].start.line, file.s[id]]);
+    chai.expect(statements).to.deep.equal([
+      [2, 3],
+      [3, 2],
+      [5, 1],
+      [8, 0],
+      [10, 1],
+      [11, 1],
+      [11, 2],
+      [12, 1],
+    ]);
+  });
+  it('should export lcov', () => {
+    const { coverage, tree, locations } = cover();
+    const lcov = coverage.toLcov('sample.js', tree, locations).split('\n');
+    chai
+      .expect(lcov.slice(0, 8))
+      .to.deep.equal(['TN:', 'SF:sample.js', 'FN:1,f', 'FN:7,unused', 'FNDA:3,f', 'FNDA:0,unused', 'FNF:2', 'FNH:1']);
+    chai.expect(lcov).to.include.members(['BRDA:2,0,1,1', 'BRDA:12,4,0,0', 'BRF:8', 'BRH:7']);
+    chai.expect(lcov).to.include.members(['DA:8,0', 'DA:11,2', 'LF:7', 'LH:6', 'end_of_record']);
+  });
+  it('should mark the branches that were never reached', () => {
+    const interpreter = new Interpreter();
+    const { tree, locations } = parseScriptWithLocation('function f(a) { return a ? 1 : 2; }');
+    interpreter.load(tree, {}, locations);
+    interpreter.coverage = new Coverage();
+    interpreter.run();
+    chai.expect(interpreter.coverage.toLcov('a.js', tree, locations)).to.include('BRDA:1,0,0,-\nBRDA:1,0,1,-\n');
+  });
+});
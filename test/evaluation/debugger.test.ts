@@ -0,0 +1,118 @@
+import chai from 'chai';
+import { parseScript, parseScriptWithLocation } from 'shift-parser';
+import { Interpreter, InterpreterRuntimeError } from '../../src';
+import { InstructionBufferEventName } from '../../src/instruction-buffer';
+
+function lookup(interpreter: Interpreter, name: string) {
+  for (const env of interpreter.debugger.getScopeChain()) {
+    for (const [variable, value] of env.bindings) {
+      if (variable.name === name) return value;
+    }
+  }
+}
+
+describe('Debugger', () => {
+  it('should pause on debugger statements and resume with the result', () => {
+    const interpreter = new Interpreter();
+    const halted: any[] = [];
+    interpreter.pointer.on(InstructionBufferEventName.HALT, instruction => halted.push(instruction.node.type));
+    interpreter.load(parseScript('function f(a) { const b = a * 2; debugger; return b + 1; } f(20);'));
+    chai.expect(interpreter.run()).to.equal(undefined);
+    chai.expect(interpreter.debugger.isPaused()).to.equal(true);
+    chai.expect(halted).to.deep.equal(['DebuggerStatement']);
+    chai.expect(interpreter.lastInstruction.node.type).to.equal('DebuggerStatement');
+    chai.expect(lookup(interpreter, 'b')).to.equal(40);
+    chai.expect(interpreter.debugger.getPauseLocation()!.depth).to.equal(1);
+    chai.expect(interpreter.debugger.resume()).to.equal(41);
+    chai.expect(interpreter.debugger.isPaused()).to.equal(false);
+  });
+  it('should not run while paused', () => {
+    const interpreter = new Interpreter();
+    const ast = parseScript('let a = 1; debugger; a = a + 1; a;');
+    interpreter.load(ast);
+    interpreter.run();
+    chai.expect(() => interpreter.run()).to.throw(InterpreterRuntimeError, 'paused');
+    chai.expect(() => interpreter.runToFirstError()).to.throw(InterpreterRuntimeError, 'paused');
+    chai.expect(() => interpreter.run(ast.statements[2])).to.throw(InterpreterRuntimeError, 'paused');
+    chai.expect(interpreter.debugger.resume()).to.equal(2);
+    chai.expect(interpreter.run()).to.equal(undefined);
+    chai.expect(interpreter.debugger.resume()).to.equal(2);
+  });
+  it('should pause at node breakpoints', () => {
+    const interpreter = new Interpreter();
+    const ast = parseScript('let a = 1; a = a + 1; a = a * 3; a;');
+    interpreter.load(ast);
+    interpreter.debugger.addBreakpoint({ node: ast.statements[2] });
+    interpreter.run();
+    chai.expect(interpreter.debugger.getPauseLocation()!.instruction.node).to.equal(ast.statements[2]);
+    chai.expect(lookup(interpreter, 'a')).to.equal(2);
+    chai.expect(interpreter.debugger.resume()).to.equal(6);
+  });
+  it('should step into, over and out of calls', () => {
+    const interpreter = new Interpreter();
+    const ast = parseScript(
+      'function f() { const x = 1; return x + 1; }\ndebugger;\nconst y = f();\nconst z = f();\ny + z;',
+    );
+    interpreter.load(ast);
+    const steps: string[] = [];
+    interpreter.pointer.on(InstructionBufferEventName.HALT, instruction => steps.push(instruction.node.type));
+    interpreter.run();
+    interpreter.debugger.stepOver();
+    interpreter.debugger.stepInto();
+    chai.expect(interpreter.debugger.getPauseLocation()!.depth).to.equal(1);
+    interpreter.debugger.stepOut();
+    chai.expect(interpreter.debugger.getPauseLocation()!.depth).to.equal(0);
+    interpreter.debugger.stepOver();
+    chai
+      .expect(steps)
+      .to.deep.equal([
+        'DebuggerStatement',
+        'VariableDeclarationStatement',
+        'VariableDeclarationStatement',
+        'VariableDeclarationStatement',
+        'ExpressionStatement',
+      ]);
+    chai.expect(interpreter.debugger.resume()).to.equal(4);
+  });
+  it('should pause at line breakpoints', () => {
+    const interpreter = new Interpreter();
+    const { tree, locations } = parseScriptWithLocation('let a = 1;\na++;\na++;\na;');
+    interpreter.load(tree, {}, locations);
+    interpreter.debugger.addBreakpoint({ line: 3 });
+    interpreter.run();
+    chai.expect(lookup(interpreter, 'a')).to.equal(2);
+    chai.expect(interpreter.debugger.resume()).to.equal(3);
+  });
+  it('should require source locations for line breakpoints', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScript('1;'));
+    chai.expect(() => interpreter.debugger.addBreakpoint({ line: 1 })).to.throw();
+  });
+  it('should pause before the first instruction when asked to', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScript('const a = 1; a + 1;'));
+    interpreter.debugger.pause();
+    interpreter.run();
+    chai
+      .expect(interpreter.debugger.getPauseLocation()!.instruction.node.type)
+      .to.equal('VariableDeclarationStatement');
+    chai.expect(interpreter.debugger.resume()).to.equal(2);
+  });
+  it('should hold back async continuations while paused', async () => {
+    const interpreter = new Interpreter();
+    const log: any[] = [];
+    interpreter.load(
+      parseScript(`
+        (async () => { await null; log.push(1); debugger; log.push(2); })();
+        (async () => { await null; log.push('b'); })();
+      `),
+      { log },
+    );
+    interpreter.run();
+    await new Promise(resolve => setTimeout(resolve, 1));
+    chai.expect(interpreter.debugger.isPaused()).to.equal(true);
+    chai.expect(log).to.deep.equal([1]);
+    interpreter.debugger.resume();
+    chai.expect(log).to.deep.equal([1, 2, 'b']);
+  });
+});
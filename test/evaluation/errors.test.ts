@@ -1,7 +1,33 @@
+import chai from 'chai';
+import { parseScriptWithLocation } from 'shift-parser';
+import { Interpreter } from '../../src';
 import { assertResult, compare } from '../util';
 
 describe('Errors', () => {
   it('should throw', () => {
     assertResult(compare("throw new Error('hello world')", { Error }));
   });
+  it('should locate errors in the source', () => {
+    const interpreter = new Interpreter();
+    const { tree, locations } = parseScriptWithLocation('var a = 1;\nfunction f() {\n  return a.b.c;\n}\nf();');
+    interpreter.load(tree, {}, locations, 'sample.js');
+    chai.expect(() => interpreter.runToFirstError()).to.not.throw();
+    chai.expect(interpreter.errorLocation).to.include({ file: 'sample.js' });
+    chai.expect(interpreter.errorLocation!.nodePosition).to.deep.equal({ line: 3, column: 9 });
+    chai.expect(interpreter.errorLocation!.statementPosition).to.deep.equal({ line: 3, column: 2 });
+    chai.expect(interpreter.formatErrorLocation()).to.match(/^sample\.js:3:10\n.*👉👉👉/);
+  });
+  it('should not format a location before a run fails', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScriptWithLocation('1 + 1').tree);
+    interpreter.run();
+    chai.expect(interpreter.formatErrorLocation()).to.equal(null);
+  });
+  it('should have no positions without source locations', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScriptWithLocation('null.a').tree);
+    interpreter.runToFirstError();
+    chai.expect(interpreter.errorLocation).to.include({ file: null, nodePosition: null, statementPosition: null });
+    chai.expect(interpreter.formatErrorLocation()).to.match(/^👉👉👉.*null\.a/);
+  });
 });
@@ -0,0 +1,105 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { assertResult, compare } from '../util';
+import { createBrowserContext, DynamicSourceKind, interpret, Interpreter, InterpreterEventName } from '../../src';
+
+describe('Dynamic code', () => {
+  it('should evaluate direct eval in the scope of the caller', () => {
+    assertResult(compare(`var a = 1; function f(b) { return eval('a + b'); } f(2);`, { eval }));
+    assertResult(compare(`function f() { let a = 1; eval('a++'); return a; } f();`, { eval }));
+    assertResult(compare(`var a = 1; eval('var a; var b = 2'); a + b;`, { eval }));
+    assertResult(compare(`var o = {}; function f() { return eval('this'); } f.call(o) === o;`, { eval }));
+  });
+  it('should declare vars and functions of direct eval in the calling function', () => {
+    assertResult(compare(`function f() { eval('var y = 5'); return y; } f();`, { eval }));
+    assertResult(compare(`function f() { { eval('function g() { return 7; }'); } return g(); } f();`, { eval }));
+    assertResult(compare(`function f() { var y = 1; eval('var y = 5'); y++; return y; } f();`, { eval }));
+    assertResult(compare(`function f() { eval('var y = 5'); return () => y; } f()();`, { eval }));
+    assertResult(
+      compare(`var y = 'outer'; function f(n) { if (n) eval('var y = n'); return y; } [f(0), f(3), y];`, { eval }),
+    );
+    assertResult(compare(`function f() { eval('var y = 5'); with ({ y: 'with' }) { return y; } } f();`, { eval }));
+    assertResult(
+      compare(
+        `function f() { eval('let z = 5; const c = 1; class C {}'); return typeof z + typeof c + typeof C; } f();`,
+        { eval },
+      ),
+    );
+    assertResult(compare(`function f() { eval('"use strict"; var z = 5'); return typeof z; } f();`, { eval }));
+  });
+  // the global scope of the native comparison isn't the script's, so these compare with the expected values
+  it('should evaluate indirect eval in the global scope', () => {
+    chai
+      .expect(interpret(`var a = 'global'; function f() { var a = 'local'; return (0, eval)('a'); } f();`, { eval }))
+      .to.equal('global');
+    chai
+      .expect(interpret(`var e = eval; function f() { var a = 1; return e('typeof a'); } f();`, { eval }))
+      .to.equal('undefined');
+    chai.expect(interpret(`eval.call(null, 'var x = 2'); x;`, { eval })).to.equal(2);
+  });
+  it('should create functions from strings in the global scope', () => {
+    chai
+      .expect(
+        interpret(`var a = 1; function f() { var a = 2; return Function('b', 'return a + b'); } f()(2);`, { Function }),
+      )
+      .to.equal(3);
+    chai.expect(interpret(`new Function('a, b', 'c', 'return a + b + c')(1, 2, 3);`, { Function })).to.equal(6);
+    chai.expect(interpret(`[]['filter']['constructor']('return typeof this')();`)).to.equal('object');
+  });
+  it('should return values other than strings', () => {
+    assertResult(compare(`eval(42);`, { eval }));
+  });
+  it('should throw syntax errors to interpreted code', () => {
+    assertResult(compare(`try { eval('a b'); } catch (e) { e instanceof SyntaxError; }`, { eval, SyntaxError }));
+    assertResult(
+      compare(`try { Function('}); (function() {'); } catch (e) { e instanceof SyntaxError; }`, {
+        Function,
+        SyntaxError,
+      }),
+    );
+  });
+  it('should not run eval and Function on the host when they are reached without a property read', () => {
+    chai
+      .expect(interpret(`const { constructor: F } = function() {}; F('return typeof process')();`, {}))
+      .to.equal('undefined');
+    chai.expect(interpret(`const [e] = [eval]; e('typeof process');`, { eval })).to.equal('undefined');
+    chai
+      .expect(interpret(`const { eval: e } = window; e('typeof process');`, createBrowserContext()))
+      .to.equal('undefined');
+    chai
+      .expect(
+        interpret(
+          `var r; Object.values(window).forEach(f => { if (f && f.name === 'Function') r = f('return typeof process')(); }); r;`,
+          createBrowserContext(),
+        ),
+      )
+      .to.equal('undefined');
+    chai
+      .expect(
+        interpret(`var r; Object.values(host).forEach(F => { r = new F('return typeof process')(); }); r;`, {
+          Object,
+          host: { F: Function },
+        }),
+      )
+      .to.equal('undefined');
+  });
+  it('should report dynamic sources', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(
+      parseScript(`eval('1'); (0, eval)('2'); Function('a', 'return a'); eval.call(null, eval('"3" + ""'));`),
+      { eval, Function },
+    );
+    const sources: any[] = [];
+    interpreter.on(InterpreterEventName.DYNAMIC_SOURCE, event =>
+      sources.push([event.kind, event.source, event.node && event.node.type]),
+    );
+    interpreter.run();
+    chai.expect(sources).to.deep.equal([
+      [DynamicSourceKind.DIRECT_EVAL, '1', 'CallExpression'],
+      [DynamicSourceKind.INDIRECT_EVAL, '2', 'CallExpression'],
+      [DynamicSourceKind.FUNCTION, '(function anonymous(a\n) {\nreturn a\n})', 'CallExpression'],
+      [DynamicSourceKind.DIRECT_EVAL, '"3" + ""', 'CallExpression'],
+      [DynamicSourceKind.INDIRECT_EVAL, '3', null],
+    ]);
+  });
+});
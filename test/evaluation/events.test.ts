@@ -0,0 +1,125 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter, InterpreterEventName } from '../../src';
+
+function createInterpreter(src: string, context = {}) {
+  const interpreter = new Interpreter();
+  interpreter.load(parseScript(src), context);
+  return interpreter;
+}
+
+describe('Events', () => {
+  it('should emit before and after each node', () => {
+    const interpreter = createInterpreter('1 + 2;');
+    const log: string[] = [];
+    interpreter.on(InterpreterEventName.BEFORE_NODE, event => log.push(`before ${event.node.type}`));
+    interpreter.on(InterpreterEventName.AFTER_NODE, event => log.push(`after ${event.node.type} ${event.result}`));
+    interpreter.run();
+    chai
+      .expect(log)
+      .to.deep.equal([
+        'before Script',
+        'before ExpressionStatement',
+        'before BinaryExpression',
+        'before LiteralNumericExpression',
+        'after LiteralNumericExpression 1',
+        'before LiteralNumericExpression',
+        'after LiteralNumericExpression 2',
+        'after BinaryExpression 3',
+        'after ExpressionStatement 3',
+        'after Script 3',
+      ]);
+  });
+  it('should emit calls and returns of interpreted and host functions', () => {
+    const interpreter = createInterpreter('function add(a, b) { return a + b; } Math.max(add(1, 2), 0); new Date(0);', {
+      Math,
+      Date,
+    });
+    const log: any[] = [];
+    interpreter.on(InterpreterEventName.CALL, event => log.push(['call', event.fn.name, event.args]));
+    interpreter.on(InterpreterEventName.RETURN, event => log.push(['return', event.fn.name, event.result]));
+    interpreter.run();
+    chai.expect(log).to.deep.equal([
+      ['call', 'add', [1, 2]],
+      ['return', 'add', 3],
+      ['call', 'max', [3, 0]],
+      ['return', 'max', 3],
+      ['call', 'Date', [0]],
+      ['return', 'Date', new Date(0)],
+    ]);
+  });
+  it('should emit variable reads and writes', () => {
+    const interpreter = createInterpreter('let a = 1; a = a + 1;');
+    const log: any[] = [];
+    interpreter.on(InterpreterEventName.VARIABLE_READ, event => log.push(['read', event.variable.name, event.value]));
+    interpreter.on(InterpreterEventName.VARIABLE_WRITE, event => log.push(['write', event.variable.name, event.value]));
+    interpreter.run();
+    chai.expect(log).to.deep.equal([
+      ['write', 'a', 1],
+      ['read', 'a', 1],
+      ['write', 'a', 2],
+    ]);
+  });
+  it('should emit property gets and sets', () => {
+    const interpreter = createInterpreter('const o = { a: 1 }; o.b = o.a; o["c"] += 1; o.a++;');
+    const log: any[] = [];
+    interpreter.on(InterpreterEventName.PROPERTY_GET, event => log.push(['get', event.property, event.value]));
+    interpreter.on(InterpreterEventName.PROPERTY_SET, event => log.push(['set', event.property, event.value]));
+    interpreter.run();
+    chai.expect(log).to.deep.equal([
+      ['get', 'a', 1],
+      ['set', 'b', 1],
+      ['get', 'c', undefined],
+      ['set', 'c', NaN],
+      ['get', 'a', 1],
+      ['set', 'a', 2],
+    ]);
+  });
+  it('should emit property gets of destructuring and super', () => {
+    const interpreter = createInterpreter(
+      'const { a, ["b"]: b, c = 3 } = { a: 1, b: 2 }; class A { get x() { return 4; } m() { return 5; } } class B extends A { m() { return super.x + super["m"](); } } new B().m();',
+    );
+    const log: any[] = [];
+    interpreter.on(InterpreterEventName.PROPERTY_GET, event =>
+      log.push([event.node.type, event.property, typeof event.value === 'function' ? 'function' : event.value]),
+    );
+    interpreter.run();
+    chai.expect(log).to.deep.equal([
+      ['BindingPropertyIdentifier', 'a', 1],
+      ['BindingPropertyProperty', 'b', 2],
+      ['BindingPropertyIdentifier', 'c', undefined],
+      ['StaticMemberExpression', 'm', 'function'],
+      ['StaticMemberExpression', 'x', 4],
+      ['ComputedMemberExpression', 'm', 'function'],
+    ]);
+  });
+  it('should emit thrown errors once where they are thrown', () => {
+    const interpreter = createInterpreter(
+      'try { null.a; } catch (e) { } try { try { throw 1; } finally { 2; } } catch (e) { throw e; }',
+    );
+    const log: any[] = [];
+    interpreter.on(InterpreterEventName.THROW, event => log.push([event.node.type, typeof event.error]));
+    chai.expect(() => interpreter.run()).to.throw();
+    chai.expect(log).to.deep.equal([
+      ['StaticMemberExpression', 'object'],
+      ['ThrowStatement', 'number'],
+      ['ThrowStatement', 'number'],
+    ]);
+  });
+  it('should emit completion', () => {
+    const interpreter = createInterpreter('40 + 2;');
+    let result;
+    interpreter.once(InterpreterEventName.COMPLETE, event => (result = event.result));
+    interpreter.run();
+    chai.expect(result).to.equal(42);
+  });
+  it('should only create events while there are listeners', () => {
+    const interpreter = createInterpreter('1;');
+    const listener = () => {};
+    chai.expect(interpreter.observed[InterpreterEventName.BEFORE_NODE]).to.not.be.ok;
+    interpreter.on(InterpreterEventName.BEFORE_NODE, listener);
+    chai.expect(interpreter.observed[InterpreterEventName.BEFORE_NODE]).to.equal(true);
+    interpreter.off(InterpreterEventName.BEFORE_NODE, listener);
+    chai.expect(interpreter.observed[InterpreterEventName.BEFORE_NODE]).to.equal(false);
+  });
+});
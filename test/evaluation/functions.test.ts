@@ -40,6 +40,20 @@ describe('Functions', () => {
   it('should call functions with arguments', () => {
     assertResult(compare('function a(a,b){return a+b}; a(2,5) === 7;'));
   });
+  it('should bind rest parameters', () => {
+    assertResult(compare('function f(a, ...rest) { return [a, rest, arguments.length]; } f(1, 2, 3);'));
+    assertResult(compare('const f = (...[a, b]) => a + b; f(1, 2);'));
+    assertResult(compare('const f = (a, ...rest) => rest.length; [f(), f(1), f(1, 2, 3)];'));
+    assertResult(compare('const o = { m(...args) { return args; } }; o.m("x", "y");'));
+  });
+  it('should name functions after their keys', () => {
+    assertResult(
+      compare(
+        'const s = Symbol("s"); const o = { a() {}, 1() {}, [s]() {}, [Symbol()]() {} }; Reflect.ownKeys(o).map(key => o[key].name);',
+        { Symbol, Reflect },
+      ),
+    );
+  });
   it('should allow reference to arguments special variable', () => {
     assertResult(compare('function a(b){return arguments[0] + 10}; a(33);'));
   });
@@ -143,6 +157,61 @@ describe('Functions', () => {
   });
 });
 
+describe('Environments', () => {
+  it('should keep separate locals for recursive calls', () => {
+    assertResult(
+      compare('function fib(n) { const a = n - 1, b = n - 2; if (n < 2) return n; return fib(a) + fib(b) }; fib(10);'),
+    );
+    assertResult(
+      compare(`
+    function decode(str, depth) {
+      let out = '';
+      if (depth > 0) out = decode(str.slice(1), depth - 1);
+      return str[0] + out;
+    }
+    decode('abcdef', 5);
+    `),
+    );
+  });
+  // interpreted calls don't nest on the host stack, the native comparison would overflow at these depths
+  it('should recurse deeper than the host stack allows', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(
+      parseScript(`
+        function count(n) { return n === 0 ? 0 : 1 + count(n - 1); }
+        const o = { down(n) { return n === 0 ? 'o' : this.down(n - 1); } };
+        const arrow = n => (n === 0 ? 'arrow' : arrow(n - 1));
+        function thrower(n) { if (n === 0) throw new Error('deep'); return thrower(n - 1); }
+        let caught;
+        try { thrower(2000); } catch (e) { caught = e.message; }
+        function* g() { yield count(2000); }
+        [count(2000), o.down(2000), arrow(2000), caught, g().next().value];
+      `),
+      { Error },
+    );
+    chai.expect(interpreter.run()).to.deep.equal([2000, 'o', 'arrow', 'deep', 2000]);
+    chai.expect(interpreter.getCallStack()).to.deep.equal([]);
+  });
+  it('should keep separate state for closures', () => {
+    assertResult(compare('function mk(x) { return () => x }; const a = mk(1), b = mk(2); a() + b();'));
+    assertResult(
+      compare(`
+    function counter() { let count = 0; return function() { return ++count } }
+    const c1 = counter(), c2 = counter();
+    c1(); c1(); c2();
+    c1() * 10 + c2();
+    `),
+    );
+  });
+  it('should allow named function expressions to reference themselves', () => {
+    assertResult(compare('const fact = function f(n) { return n > 1 ? n * f(n - 1) : 1 }; fact(5);'));
+  });
+  it('should give block scopes their own environment', () => {
+    assertResult(compare('let a = 1; { let a = 2; } a;'));
+    assertResult(compare('function fn(n) { { let a = n; if (n > 0) fn(n - 1); return a } }; fn(3);'));
+  });
+});
+
 describe('Getters/Setters', () => {
   it('should define getters', () => {
     assertResult(compare('let a = { get b() {return 2} }; a.b;'));
@@ -0,0 +1,114 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter } from '../../src';
+import { assertResult, compare } from '../util';
+
+describe('Generators', () => {
+  it('should return iterators from generator functions', () => {
+    assertResult(
+      compare(
+        `function* g() { yield 1; yield 2; return 3; } const it = g(); [it.next(), it.next(), it.next(), it.next()];`,
+      ),
+    );
+    assertResult(compare(`function* g() { yield 1; } Object.prototype.toString.call(g());`, { Object }));
+  });
+  it('should support generator expressions and methods', () => {
+    assertResult(compare(`const g = function*() { yield 'a'; yield 'b'; }; [...g()];`));
+    assertResult(compare(`const o = { *m() { yield this.x; }, x: 'c' }; [...o.m()];`));
+    assertResult(compare(`class A { *m() { yield 'd'; } } [...new A().m()];`));
+  });
+  it('should be iterable with for...of', () => {
+    assertResult(
+      compare(
+        `function* g(n) { for (let i = 0; i < n; i++) yield i * 2; } let sum = 0; for (const v of g(4)) sum += v; sum;`,
+      ),
+    );
+  });
+  it('should pass values to next() back into the generator', () => {
+    assertResult(
+      compare(
+        `function* g() { const a = yield 1; const b = yield a * 2; return a + b; } const it = g(); [it.next(4).value, it.next(5).value, it.next(6).value];`,
+      ),
+    );
+  });
+  it('should keep locals and environments across yields', () => {
+    assertResult(
+      compare(`
+      function* counter() { let i = 0; while (true) { const current = i; yield () => current; i++; } }
+      const a = counter(), b = counter();
+      const fns = [a.next().value, a.next().value, b.next().value, a.next().value];
+      fns.map(fn => fn());
+    `),
+    );
+  });
+  it('should delegate with yield*', () => {
+    assertResult(
+      compare(
+        `function* inner() { yield 1; yield 2; return 'done'; } function* outer() { const r = yield* inner(); yield* [3, 4]; yield r; } [...outer()];`,
+      ),
+    );
+    assertResult(
+      compare(`
+      function* walk(node) { if (!node) return; yield* walk(node.left); yield node.value; yield* walk(node.right); }
+      const tree = { value: 2, left: { value: 1 }, right: { value: 3, right: { value: 4 } } };
+      [...walk(tree)];
+    `),
+    );
+  });
+  it('should run finalizers when return() is called', () => {
+    assertResult(
+      compare(
+        `let log = []; function* g() { try { yield 1; yield 2; } finally { log.push('cleanup'); } } const it = g(); it.next(); [it.return(5), it.next(), log];`,
+      ),
+    );
+    assertResult(
+      compare(
+        `function* g() { try { yield 1; } finally { yield 'finally'; } } const it = g(); it.next(); [it.return(5), it.next()];`,
+      ),
+    );
+    assertResult(compare(`function* g() { yield 1; } const it = g(); [it.return(5), it.next()];`));
+  });
+  it('should forward return() to delegates', () => {
+    assertResult(
+      compare(
+        `let log = []; function* inner() { try { yield 1; } finally { log.push('inner'); } } function* outer() { try { yield* inner(); } finally { log.push('outer'); } } const it = outer(); it.next(); [it.return(2), log];`,
+      ),
+    );
+  });
+  it('should throw errors into the generator with throw()', () => {
+    assertResult(
+      compare(
+        `function* g() { try { yield 1; } catch (e) { yield 'caught ' + e; } } const it = g(); it.next(); [it.throw('err'), it.next()];`,
+      ),
+    );
+    assertResult(
+      compare(`function* g() { yield 1; } const it = g(); it.next(); try { it.throw('err') } catch (e) { e }`),
+    );
+    assertResult(
+      compare(
+        `function* inner() { try { yield 1; } catch (e) { yield 'inner ' + e; } } function* outer() { yield* inner(); } const it = outer(); it.next(); it.throw('err');`,
+      ),
+    );
+  });
+  it('should close generators when a for...of loop exits early', () => {
+    assertResult(
+      compare(
+        `let log = []; function* g() { try { yield 1; yield 2; } finally { log.push('closed'); } } for (const v of g()) { log.push(v); break; } log;`,
+      ),
+    );
+  });
+  it('should not be constructable', () => {
+    assertResult(compare(`function* g() {} try { new g() } catch (e) { e.message }`));
+  });
+  it('should not allow reentry', () => {
+    assertResult(compare(`let it; function* g() { it.next(); } it = g(); try { it.next() } catch (e) { e.message }`));
+  });
+  it('should be steppable from the host', () => {
+    const interpreter = new Interpreter();
+    interpreter.load(parseScript(`function* g(a) { const b = yield a; yield a + b; } g(1);`));
+    const iterator = interpreter.run();
+    chai.expect(iterator.next().value).to.equal(1);
+    chai.expect(iterator.next(2).value).to.equal(3);
+    chai.expect(iterator.next().done).to.equal(true);
+  });
+});
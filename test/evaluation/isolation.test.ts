@@ -0,0 +1,141 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter } from '../../src';
+
+function runIsolated(src: string, context = {}) {
+  const interpreter = new Interpreter({ isolated: true });
+  interpreter.load(parseScript(src), context);
+  return interpreter.run();
+}
+
+describe('Isolation', () => {
+  it('should keep changes to built-ins out of the host', () => {
+    const result = runIsolated(`
+      Object.prototype.polluted = 'object';
+      Array.prototype.polluted = 'array';
+      String.prototype.polluted = 'string';
+      ({}).__proto__.viaLiteral = 1;
+      [].constructor.prototype.viaConstructor = 2;
+      (function() {}).__proto__.viaFunction = 3;
+      [({}).polluted, [].polluted, 'a'.polluted, ({}).viaLiteral, [].viaConstructor, (() => {}).viaFunction];
+    `);
+    chai.expect(result).to.deep.equal(['object', 'array', 'string', 1, 2, 3]);
+    const host: any = {};
+    chai.expect(host.polluted).to.equal(undefined);
+    chai.expect(host.viaLiteral).to.equal(undefined);
+    chai.expect(([] as any).viaConstructor).to.equal(undefined);
+    chai.expect((() => {}) as any).to.not.have.property('viaFunction');
+    chai.expect(('a' as any).polluted).to.equal(undefined);
+  });
+  it('should use the fresh built-ins consistently', () => {
+    const result = runIsolated(`
+      let caught;
+      try { null.a; } catch (e) { caught = e; }
+      [
+        [] instanceof Array,
+        ({}).constructor === Object,
+        Object.getPrototypeOf([]) === Array.prototype,
+        (function() {}) instanceof Object,
+        (async () => {})() instanceof Promise,
+        /a/ instanceof RegExp,
+        caught instanceof TypeError,
+        'abc'.constructor === String,
+      ];
+    `);
+    chai.expect(result).to.deep.equal([true, true, true, true, true, true, true, true]);
+  });
+  it('should throw and reject with errors of the host classes', async () => {
+    let thrown: any;
+    try {
+      runIsolated(`throw new TypeError('sync')`);
+    } catch (e) {
+      thrown = e;
+    }
+    chai.expect(thrown).to.be.an.instanceof(TypeError);
+    chai.expect(thrown.message).to.equal('sync');
+    let rejected: any;
+    await runIsolated(`(async () => { await null; throw new RangeError('async'); })()`).catch((e: any) => {
+      rejected = e;
+    });
+    chai.expect(rejected).to.be.an.instanceof(RangeError);
+    chai.expect(rejected.message).to.equal('async');
+    chai.expect(rejected.stack).to.include('async');
+    chai
+      .expect(
+        await runIsolated(
+          `(async () => { try { await Promise.reject(new TypeError()); } catch (e) { return e instanceof TypeError; } })()`,
+        ),
+      )
+      .to.equal(true);
+  });
+  it('should expose only the host values of the context', () => {
+    chai
+      .expect(runIsolated(`[typeof require, typeof process, typeof console, typeof Math.max]`))
+      .to.deep.equal(['undefined', 'undefined', 'undefined', 'function']);
+    chai.expect(runIsolated(`typeof console.log`, { console })).to.equal('function');
+  });
+  it('should expose host objects through copy-on-write proxies', () => {
+    const config = { value: 1, nested: { a: 1 }, list: [1, 2] };
+    const result = runIsolated(
+      `
+      config.value = 2;
+      config.nested.a = 2;
+      config.list.push(3);
+      config.__proto__.polluted = true;
+      Reflect.deleteProperty(config.nested, "a");
+      [config.value, 'a' in config.nested, config.list.length, ({}).polluted, Object.keys(config).length];
+    `,
+      { config },
+    );
+    chai.expect(result).to.deep.equal([2, false, 3, true, 3]);
+    chai.expect(config).to.deep.equal({ value: 1, nested: { a: 1 }, list: [1, 2] });
+    chai.expect(({} as any).polluted).to.equal(undefined);
+  });
+  it('should call allowed host functions', () => {
+    const host = {
+      double: (x: number) => x * 2,
+      create: () => ({ created: true }),
+    };
+    const result = runIsolated(
+      `const created = create(); created.extra = 1; [double(21), created.created, created.extra, double.call(null, 2)];`,
+      host,
+    );
+    chai.expect(result).to.deep.equal([42, true, 1, 4]);
+  });
+  it('should not reach host built-ins through super or generator results', () => {
+    const freeze = Object.freeze;
+    try {
+      const result = runIsolated(`
+        function* g() { yield 1; }
+        const o = { __proto__: g().next(), m() { return super.constructor; } };
+        o.m().freeze = () => 'changed';
+        [o.m() === Object, g().next() instanceof Object, Object.freeze === o.m().freeze];
+      `);
+      chai.expect(result).to.deep.equal([true, true, true]);
+      chai.expect(Object.freeze).to.equal(freeze);
+    } finally {
+      Object.freeze = freeze;
+    }
+  });
+  it('should give every interpreter its own generator prototypes', async () => {
+    runIsolated(`
+      function* g() {}
+      async function* ag() {}
+      Object.getPrototypeOf(Object.getPrototypeOf(g())).next = () => 'changed';
+      Object.getPrototypeOf(Object.getPrototypeOf(ag())).next = () => 'changed';
+    `);
+    chai.expect(runIsolated(`function* g() { yield 1; } g().next().value;`)).to.equal(1);
+    chai
+      .expect(await runIsolated(`async function* g() { yield 1; } g().next().then(result => result.value);`))
+      .to.equal(1);
+    const interpreter = new Interpreter();
+    interpreter.load(parseScript(`function* g() { yield 2; } g().next().value;`));
+    chai.expect(interpreter.run()).to.equal(2);
+  });
+  it('should not reach the host through the Function constructor', () => {
+    chai
+      .expect(() => runIsolated(`(function() {}).constructor('return process')()`))
+      .to.throw(/process is not defined/);
+    chai.expect(runIsolated(`Function('return [] instanceof Array')()`)).to.equal(true);
+  });
+});
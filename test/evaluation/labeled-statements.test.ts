@@ -0,0 +1,69 @@
+import { assertResult, compare } from '../util';
+
+describe('Labeled statements', () => {
+  it('should break out of labeled loops', () => {
+    assertResult(
+      compare(
+        `let a = 0; outer: for (let i = 0; i < 3; i++) { for (let j = 0; j < 3; j++) { if (j === 1) break outer; a++; } } a;`,
+      ),
+    );
+  });
+  it('should continue labeled loops', () => {
+    assertResult(
+      compare(
+        `let a = ''; outer: for (let i = 0; i < 3; i++) { for (let j = 0; j < 3; j++) { if (j === 1) continue outer; a += i + '' + j; } } a;`,
+      ),
+    );
+  });
+  it('should continue labeled loops of every type', () => {
+    assertResult(
+      compare(
+        `let a = '', i = 0; outer: while (i++ < 3) { do { a += i; continue outer; } while (false); a += 'x'; } a;`,
+      ),
+    );
+    assertResult(
+      compare(
+        `let a = '', i = 0; outer: do { for (const k in {x: 1}) { a += k + i; continue outer; } a += '!' } while (i++ < 2); a;`,
+      ),
+    );
+    assertResult(
+      compare(
+        `let a = ''; outer: for (const i of [1, 2]) { for (const j of [1, 2]) { a += i + j; continue outer; } } a;`,
+      ),
+    );
+  });
+  it('should support multiple labels on a statement', () => {
+    assertResult(compare(`let a = 0; x: y: for (let i = 0; i < 3; i++) { for (;;) { a++; continue x; } } a;`));
+    assertResult(compare(`let a = 0; x: y: for (let i = 0; i < 3; i++) { for (;;) { a++; break y; } } a;`));
+  });
+  it('should break out of labeled blocks', () => {
+    assertResult(compare(`let a = 1; block: { a = 2; if (a) break block; a = 3; } a;`));
+  });
+  it('should break out of a loop from within a switch', () => {
+    assertResult(
+      compare(`let a = 0; loop: for (;;) { switch (a++) { case 3: break loop; default: continue loop; } } a;`),
+    );
+  });
+});
+
+describe('Completions', () => {
+  it('should return from within loops', () => {
+    assertResult(compare(`function fn() { for (let i = 0; i < 10; i++) { if (i === 3) return i; } } fn();`));
+    assertResult(compare(`function fn() { let i = 0; while (true) { if (i++ > 2) { return i; } } } fn();`));
+  });
+  it('should stop evaluating blocks after an abrupt completion', () => {
+    assertResult(compare(`let a = 0; function fn() { if (true) { return 1; a = 2; } } fn(); a;`));
+    assertResult(compare(`let a = 0; for (let i = 0; i < 3; i++) { if (i) { continue; a++; } } a;`));
+  });
+  it('should return undefined from functions without a return statement', () => {
+    assertResult(compare(`function fn() { 2; } fn();`));
+  });
+  it('should not leak returns from arrow functions', () => {
+    assertResult(compare(`function fn() { const g = () => { return 1 }; g(); return 2; } fn();`));
+  });
+  it('should evaluate finalizers without losing the completion of the try block', () => {
+    assertResult(compare(`let a = 0; function fn() { try { return 1; } finally { a = 2; } } fn() + a;`));
+    assertResult(compare(`function fn() { try { return 1; } finally { return 2; } } fn();`));
+    assertResult(compare(`function fn() { try { throw 1; } finally { return 2; } } fn();`));
+  });
+});
@@ -0,0 +1,54 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter, InterpreterLimit, InterpreterLimitError } from '../../src';
+
+function runToError(interpreter: Interpreter, src: string) {
+  interpreter.load(parseScript(src));
+  try {
+    interpreter.run();
+  } catch (e) {
+    return e;
+  }
+  throw new Error('expected the run to throw');
+}
+
+describe('Limits', () => {
+  it('should stop infinite loops at the step limit', () => {
+    const interpreter = new Interpreter({ maxSteps: 1000 });
+    const error = runToError(interpreter, 'let i = 0; while (!![]) { i++; }');
+    chai.expect(error).to.be.instanceOf(InterpreterLimitError);
+    chai.expect(error.limit).to.equal(InterpreterLimit.STEPS);
+    chai.expect(error.steps).to.equal(1001);
+    chai.expect(interpreter.steps).to.equal(1001);
+  });
+  it('should stop infinite loops at the timeout', () => {
+    const interpreter = new Interpreter({ timeout: 20 });
+    const error = runToError(interpreter, 'for (;;) {}');
+    chai.expect(error).to.be.instanceOf(InterpreterLimitError);
+    chai.expect(error.limit).to.equal(InterpreterLimit.TIMEOUT);
+    chai.expect(error.steps).to.be.greaterThan(0);
+  });
+  it('should not be catchable by interpreted code', () => {
+    const interpreter = new Interpreter({ maxSteps: 500 });
+    const error = runToError(
+      interpreter,
+      'let caught = 0; while (true) { try { caught++; } catch (e) { caught = -1; break; } }',
+    );
+    chai.expect(error).to.be.instanceOf(InterpreterLimitError);
+  });
+  it('should carry the location of the last instruction', () => {
+    const interpreter = new Interpreter({ maxSteps: 100 });
+    const error = runToError(interpreter, 'function spin() { while (true) {} } spin();');
+    chai.expect(error.errorLocation.lastStatement.type).to.equal('WhileStatement');
+    chai.expect(error.errorLocation.lastInstruction).to.equal(interpreter.errorLocation!.lastInstruction);
+  });
+  it('should count the steps of every run', () => {
+    const interpreter = new Interpreter({ maxSteps: 1000 });
+    interpreter.load(parseScript('let a = 1 + 2;'));
+    interpreter.run();
+    const steps = interpreter.steps;
+    chai.expect(steps).to.be.greaterThan(0);
+    interpreter.run();
+    chai.expect(interpreter.steps).to.equal(steps);
+  });
+});
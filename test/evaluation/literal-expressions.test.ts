@@ -32,8 +32,33 @@ describe('Literals', () => {
     it('should evaluate template strings with embedded expressions', () => {
       assertResult(compare('`hello ${"world"}`'));
     });
-    xit('should evaluate tagged template strings', () => {
-      // should it though? Deferring support until I run across them in a script I care about.
+    it('should evaluate escape sequences in templates', () => {
+      assertResult(compare('`a\\nb\\u0041\\x42\\u{1F600}\\\nc`'));
+      assertResult(compare('`${undefined} ${null} ${[1, 2]} ${{ toString: () => "x" }}`', { undefined }));
+    });
+    it('should evaluate tagged template strings', () => {
+      assertResult(compare('String.raw`a\\nb${1 + 1}c`', { String }));
+      assertResult(compare('((strings, ...values) => [strings, strings.raw, values])`a${1}\\u0041${2}`'));
+    });
+    it('should call tags on their objects', () => {
+      assertResult(
+        compare(
+          'var o = { prefix: "p", tag(strings, value) { return this.prefix + strings[0] + value; } }; o.tag`a${1}`',
+        ),
+      );
+    });
+    it('should pass the same frozen strings each time a template is evaluated', () => {
+      assertResult(
+        compare(
+          `
+          var seen = [];
+          var tag = strings => strings;
+          for (var i = 0; i < 2; i++) seen.push(tag\`a\${i}\`);
+          [seen[0] === seen[1], seen[0] === tag\`a\${i}\`, Object.isFrozen(seen[0]), Object.isFrozen(seen[0].raw), Object.keys(seen[0])];
+        `,
+          { Object },
+        ),
+      );
     });
   });
   describe('regexes', () => {
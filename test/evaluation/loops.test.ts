@@ -24,6 +24,14 @@ describe('Loops', () => {
       );
     });
   });
+  it('should create a new binding for each iteration', () => {
+    assertResult(compare('let fns = []; for (let i = 0; i < 3; i++) { fns.push(() => i) } fns.map(f => f());'));
+    assertResult(compare('let fns = []; for (const i of [1, 2, 3]) { fns.push(() => i) } fns.map(f => f());'));
+    assertResult(compare('let fns = []; for (const k in {a: 1, b: 2}) { fns.push(() => k) } fns.map(f => f());'));
+    assertResult(
+      compare('let fns = []; for (let i = 0; i < 3; i++) { let j = i * 2; fns.push(() => j) } fns.map(f => f());'),
+    );
+  });
   it('should support for...in statements', () => {
     assertResult(compare(`let a = {a:1,b:2},c = 0; for (let b in a) { c+=a[b]; } c;`));
     assertResult(compare(`let a = {a:1,b:2},c = 0,b; for (b in a) { c+=a[b]; } c;`));
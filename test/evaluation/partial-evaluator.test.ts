@@ -0,0 +1,79 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { prettyPrint } from 'shift-printer';
+import { Interpreter, PartialEvaluator, PartialEvaluatorOptions } from '../../src';
+
+function fold(src: string, context = {}, options?: PartialEvaluatorOptions) {
+  const interpreter = new Interpreter();
+  const tree = parseScript(src);
+  interpreter.load(tree, context);
+  const evaluator = new PartialEvaluator(interpreter, options);
+  interpreter.run();
+  evaluator.detach();
+  return prettyPrint(evaluator.fold());
+}
+
+describe('PartialEvaluator', () => {
+  it('should replace the calls of decoders with their values', () => {
+    const src = `
+      var strings = ['tnemucod', 'eikooc'];
+      function decode(s) { var chars = s.split(''); chars.reverse(); return chars.join(''); }
+      var value = window[decode(strings[0])][decode(strings[1])];
+    `;
+    const folded = fold(src, { window: { document: { cookie: 'a=1' } } });
+    chai.expect(folded).to.include('var value = window["document"]["cookie"];');
+    chai.expect(folded).to.include(`var strings = ["tnemucod", "eikooc"];`);
+  });
+  it('should not fold expressions that destructure primitives from host objects', () => {
+    const folded = fold(`var value = (({ cookie }) => cookie)(document) + '!';`, { document: { cookie: 'a=1' } });
+    chai.expect(folded).to.include('(document) + "!";');
+  });
+  it('should fold values that can not be written as a single literal', () => {
+    const folded = fold(`var a = [1 - 2, 0 / 0, 1 / 0, -1 / 0, [][0], !0, null || null];`);
+    chai.expect(folded).to.include('var a = [-1, NaN, 2e308, -2e308, void 0, true, null];');
+  });
+  it('should only fold expressions that evaluated to the same value every time', () => {
+    const folded = fold(`
+      function f(x) { return x * 2 + (1 + 1); }
+      f(1);
+      f(2);
+      f(1 + 2);
+    `);
+    chai.expect(folded).to.include('return x * 2 + 2;');
+    // the calls are pure, so the statements fold too
+    chai.expect(folded).to.include('4;\n6;\n8;');
+  });
+  it('should leave side effects and objects alone', () => {
+    const folded = fold(
+      `
+      var count = 0;
+      var o = {};
+      function next() { return ++count; }
+      function set() { o.a = 1; return 1; }
+      function local() { var o = { a: 0 }; o.a = 2; return o.a; }
+      var values = [next(), set(), local(), o, Math.random() < 2];
+    `,
+      { Math },
+    );
+    chai.expect(folded).to.include('var values = [next(), set(), 2, o, Math.random() < 2];');
+  });
+  it('should not turn expression statements into directives', () => {
+    const folded = fold(`function f() { "use" + " strict"; return 1; } f();`);
+    chai.expect(folded).to.include('"use" + " strict";');
+  });
+  it('should fold expression statements that do not evaluate to strings', () => {
+    const folded = fold(`var a = "xy"; a.length; a + "z"; function f() { return 1; } f() + 1;`);
+    chai.expect(folded).to.include('2;');
+    chai.expect(folded).to.include('"xy" + "z";');
+    chai.expect(folded).to.not.include('a.length;');
+  });
+  it('should leave the script it folds unchanged', () => {
+    const interpreter = new Interpreter();
+    const tree = parseScript('var a = 1 + 1;');
+    interpreter.load(tree);
+    const evaluator = new PartialEvaluator(interpreter);
+    interpreter.run();
+    chai.expect(prettyPrint(evaluator.fold())).to.include('var a = 2;');
+    chai.expect(prettyPrint(tree)).to.include('var a = 1 + 1;');
+  });
+});
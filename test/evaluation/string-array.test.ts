@@ -0,0 +1,105 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter, StringArrayDecoder } from '../../src';
+
+const atob = (str: string) => Buffer.from(str, 'base64').toString('ascii');
+
+function load(src: string, context = {}) {
+  const interpreter = new Interpreter();
+  const tree = parseScript(src);
+  interpreter.load(tree, context);
+  return { interpreter, tree };
+}
+
+describe('StringArrayDecoder', () => {
+  it('should decode the calls of a rotated array with a caching decoder', () => {
+    const { interpreter, tree } = load(
+      `
+      var _0x1a2b = ['d29ybGQ=', 'Zm9v', 'Y29uc29sZQ==', 'bG9n', 'aGVsbG8='];
+      (function (_0x3c4d, _0x5e6f) {
+        var _0x7a8b = function (_0x9c0d) {
+          while (--_0x9c0d) {
+            _0x3c4d['push'](_0x3c4d['shift']());
+          }
+        };
+        _0x7a8b(++_0x5e6f);
+      })(_0x1a2b, 0x2);
+      var _0x2b3c = function (_0x3c4d, _0x5e6f) {
+        _0x3c4d = _0x3c4d - 0x0;
+        var _0x7a8b = _0x1a2b[_0x3c4d];
+        if (_0x2b3c['cache'] === undefined) _0x2b3c['cache'] = {};
+        var _0x1f2e = _0x2b3c['cache'][_0x3c4d];
+        if (_0x1f2e === undefined) {
+          _0x7a8b = atob(_0x7a8b);
+          _0x2b3c['cache'][_0x3c4d] = _0x7a8b;
+        } else {
+          _0x7a8b = _0x1f2e;
+        }
+        return _0x7a8b;
+      };
+      window[_0x2b3c('0x0')][_0x2b3c('0x1')](_0x2b3c('0x2'));
+      function main(x) {
+        var _0x11 = _0x2b3c;
+        return _0x11('0x3') + _0x11('0x4') + _0x2b3c(x);
+      }
+    `,
+      { atob, undefined },
+    );
+    const decoder = new StringArrayDecoder(interpreter);
+    chai.expect(decoder.layout).to.deep.equal({
+      array: tree.statements[0],
+      rotation: tree.statements[1],
+      decoders: [tree.statements[2]],
+    });
+    const strings = decoder.decode();
+    chai.expect([...strings.values()]).to.deep.equal(['console', 'log', 'hello', 'world', 'foo']);
+    // @ts-ignore
+    chai.expect(strings.get(tree.statements[3].expression.arguments[0])).to.equal('hello');
+  });
+  it('should decode arrays returned by functions with self-replacing decoders', () => {
+    const { interpreter, tree } = load(
+      `
+      function _0x4e2a() {
+        var _0x1 = ['log', '7x', 'console', 'hello', 'world'];
+        _0x4e2a = function () { return _0x1; };
+        return _0x4e2a();
+      }
+      function _0x3c1f(_0xa, _0xb) {
+        var _0x4 = _0x4e2a();
+        return (_0x3c1f = function (_0xc, _0xd) {
+          _0xc = _0xc - 0x64;
+          var _0xe = _0x4[_0xc];
+          return _0xe;
+        }), _0x3c1f(_0xa, _0xb);
+      }
+      (function (_0xf, _0x10) {
+        var _0x11 = _0x3c1f, _0x12 = _0xf();
+        while (!![]) {
+          try {
+            var _0x13 = parseInt(_0x11(0x64));
+            if (_0x13 === _0x10) break;
+            else _0x12['push'](_0x12['shift']());
+          } catch (_0x14) {
+            _0x12['push'](_0x12['shift']());
+          }
+        }
+      })(_0x4e2a, 0x7);
+      var _0x5 = _0x3c1f;
+      window[_0x5(0x65)][_0x3c1f(-0x1 * 0x1 + 0x67)](_0x5(0x66) + _0x5(0x68));
+    `,
+      { parseInt },
+    );
+    const decoder = new StringArrayDecoder(interpreter);
+    chai.expect(decoder.layout!.array).to.equal(tree.statements[0]);
+    chai.expect(decoder.layout!.rotation).to.equal(tree.statements[2]);
+    chai.expect(decoder.layout!.decoders).to.deep.equal([tree.statements[1]]);
+    chai.expect([...decoder.decode().values()]).to.deep.equal(['console', 'hello', 'hello', 'log']);
+  });
+  it('should not find a layout in scripts without a string array', () => {
+    const { interpreter } = load(`var a = ['a', 'b']; function f(i) { return a[i]; } f(0);`);
+    const decoder = new StringArrayDecoder(interpreter);
+    chai.expect(decoder.layout).to.equal(null);
+    chai.expect(decoder.decode().size).to.equal(0);
+    chai.expect(new StringArrayDecoder(interpreter, { minLength: 2 }).layout).to.not.equal(null);
+  });
+});
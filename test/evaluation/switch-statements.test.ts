@@ -0,0 +1,51 @@
+import { assertResult, compare } from '../util';
+
+describe('Switch', () => {
+  it('should evaluate the matching case', () => {
+    assertResult(compare(`let a = 0; switch (2) { case 1: a = 1; break; case 2: a = 2; break; case 3: a = 3; } a;`));
+  });
+  it('should match with strict equality', () => {
+    assertResult(compare(`let a = 0; switch ('2') { case 2: a = 'number'; break; case '2': a = 'string'; } a;`));
+  });
+  it('should fall through cases without a break', () => {
+    assertResult(compare(`let a = ''; switch (1) { case 1: a += 'a'; case 2: a += 'b'; break; case 3: a += 'c'; } a;`));
+  });
+  it('should do nothing when no case matches', () => {
+    assertResult(compare(`let a = 0; switch (4) { case 1: a = 1; } a;`));
+  });
+  it('should evaluate default cases placed anywhere', () => {
+    assertResult(
+      compare(`let a = ''; switch (4) { case 1: a += 'a'; default: a += 'd'; case 2: a += 'b'; break; } a;`),
+    );
+    assertResult(compare(`let a = ''; switch (2) { case 1: a += 'a'; default: a += 'd'; case 2: a += 'b'; } a;`));
+    assertResult(compare(`let a = ''; switch (4) { default: a += 'd'; break; case 1: a += 'a'; } a;`));
+  });
+  it('should only evaluate case tests until a match is found', () => {
+    assertResult(compare(`let a = 0; switch (1) { case ++a: break; case ++a: break; } a;`));
+  });
+  it('should return from within a case', () => {
+    assertResult(
+      compare(`function fn(a) { switch (a) { case 1: return 'one'; default: return 'other'; } } fn(1) + fn(2);`),
+    );
+  });
+  it('should leave continue statements for the enclosing loop', () => {
+    assertResult(
+      compare(`
+      let order = '2|0|1'.split('|'), i = 0, out = '';
+      while (true) {
+        switch (order[i++]) {
+          case '0': out += 'a'; continue;
+          case '1': out += 'b'; continue;
+          case '2': out += 'c'; continue;
+        }
+        break;
+      }
+      out;
+    `),
+    );
+  });
+  it('should give lexical declarations their own scope', () => {
+    assertResult(compare(`let a = 1; switch (1) { case 1: let a = 2; } a;`));
+    assertResult(compare(`let b; switch (1) { case 0: let a = 2; case 1: b = typeof fn; function fn() {} } b;`));
+  });
+});
@@ -0,0 +1,57 @@
+import chai from 'chai';
+import { parseScript, parseScriptWithLocation } from 'shift-parser';
+import { Interpreter, Tracer } from '../../src';
+
+function trace(src: string, tracer: Tracer) {
+  const interpreter = new Interpreter();
+  const { tree, locations } = parseScriptWithLocation(src);
+  interpreter.load(tree, {}, locations);
+  interpreter.tracer = tracer;
+  try {
+    interpreter.run();
+  } catch (e) {}
+  return tracer.entries;
+}
+
+describe('Tracer', () => {
+  it('should record instructions with their results, locations and call depth', () => {
+    const entries = trace('function f(a) {\n  return a + 1;\n}\nf(1);', new Tracer());
+    chai.expect(entries[0]).to.include({ type: 'Script', line: 1, column: 0, depth: 0 });
+    const binary = entries.find(entry => entry.type === 'BinaryExpression')!;
+    chai.expect(binary).to.include({ line: 2, column: 9, depth: 1, result: '2' });
+    chai.expect(entries.find(entry => entry.type === 'CallExpression')).to.include({ depth: 0, result: '2' });
+    chai
+      .expect(entries.map(entry => entry.id))
+      .to.deep.equal([...entries.map(entry => entry.id)].sort((a, b) => a - b));
+  });
+  it('should filter by node type', () => {
+    const entries = trace('let a = "x"; a += "y"; a;', new Tracer({ nodeTypes: ['IdentifierExpression'] }));
+    chai.expect(entries.map(entry => entry.result)).to.deep.equal(['"xy"']);
+  });
+  it('should cap captured values', () => {
+    const entries = trace('"a".repeat(50);', new Tracer({ nodeTypes: ['CallExpression'], maxValueLength: 10 }));
+    chai.expect(entries[0].result).to.equal(`"${'a'.repeat(9)}…`);
+  });
+  it('should record thrown errors', () => {
+    const entries = trace('null.x;', new Tracer({ nodeTypes: ['StaticMemberExpression'] }));
+    chai.expect(entries[0].error).to.match(/^TypeError: Cannot read properties of null/);
+    chai.expect(entries[0].result).to.equal(undefined);
+  });
+  it('should export JSON Lines and Chrome traces', () => {
+    const tracer = new Tracer();
+    const entries = trace('1 + 2;', tracer);
+    const lines = tracer.toJSONLines().split('\n');
+    chai.expect(lines.map(line => JSON.parse(line))).to.deep.equal(entries);
+    const { traceEvents } = tracer.toChromeTrace();
+    chai.expect(traceEvents).to.have.length(entries.length);
+    chai.expect(traceEvents[0]).to.include({ name: 'Script', ph: 'X' });
+    chai.expect(traceEvents[1].ts).to.be.at.least(traceEvents[0].ts);
+  });
+  it('should have no locations without loaded source locations', () => {
+    const interpreter = new Interpreter();
+    interpreter.tracer = new Tracer();
+    interpreter.load(parseScript('1;'));
+    interpreter.run();
+    chai.expect(interpreter.tracer.entries[0]).to.include({ line: null, column: null });
+  });
+});
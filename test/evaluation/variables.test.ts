@@ -56,3 +56,86 @@ describe('Variables', () => {
     assertResult(compare('let {["a"] : [b]} = {a:[22]}; b === 22;'));
   });
 });
+
+describe('Destructuring bindings', () => {
+  it('should bind rest elements', () => {
+    assertResult(compare('const [a, ...rest] = [1, 2, 3]; [a, rest];'));
+    assertResult(compare('const [a, ...[b, c]] = "xyz"; a + b + c;'));
+    assertResult(compare('const { a, ...rest } = { a: 1, b: 2, c: 3 }; [a, rest];'));
+    assertResult(compare('const { ["a"]: x, ...rest } = { a: 1, b: 2 }; [x, rest];'));
+  });
+  it('should hoist the identifiers of var patterns', () => {
+    assertResult(compare('var { a } = { a: 1 }; a;'));
+    assertResult(compare('var [a] = [1]; a;'));
+    assertResult(compare('var o = { a: 1, b: 2 }; var { a, ...rest } = o; [a, rest];'));
+    assertResult(compare('var [a, ...rest] = [1, 2, 3]; [a, rest];'));
+    assertResult(
+      compare(
+        'function f() { var before = [x, y, z]; var [x, { y = 2 }, ...[z]] = [1, {}, 3]; return [before, x, y, z]; } f();',
+      ),
+    );
+  });
+  it('should destructure any iterable with the iterator protocol', () => {
+    assertResult(compare('const [a, b] = new Set([1, 2, 2, 3]); [a, b];', { Set }));
+    assertResult(compare('function* g() { yield 1; yield 2; yield 3; } const [a, , c, d] = g(); [a, c, d];'));
+    assertResult(compare('const [[k, v]] = new Map([["key", "value"]]); k + v;', { Map }));
+    assertResult(compare('try { const [a] = {}; } catch (e) { e.constructor.name; }'));
+  });
+  it('should close the iterator when destructuring ends early', () => {
+    assertResult(
+      compare(
+        'const log = []; function* g() { try { yield 1; yield 2; yield 3; } finally { log.push("closed"); } } const [a] = g(); const [...all] = g(); [a, all, log];',
+      ),
+    );
+    assertResult(
+      compare(
+        'const log = []; function* g() { try { yield 1; } finally { log.push("closed"); } } try { const [{ x } = null] = g(); } catch (e) { log.push(e.constructor.name); } log;',
+      ),
+    );
+  });
+});
+
+describe('Destructuring assignment', () => {
+  it('should swap values with array patterns', () => {
+    assertResult(compare('let a = 1, b = 2; [a, b] = [b, a]; [a, b];'));
+  });
+  it('should assign with object patterns', () => {
+    assertResult(compare('let a, b, c; ({ a, b: c, ["d"]: b } = { a: 1, b: 2, d: 3 }); [a, b, c];'));
+  });
+  it('should support defaults and nested patterns', () => {
+    assertResult(compare('let a, b, c; [a = 5, { b, c = 7 }] = [void 0, { b: 6 }]; [a, b, c];'));
+    assertResult(compare('let a, b; ({ a = 1, x: [b = 2] } = { x: [] }); [a, b];'));
+  });
+  it('should assign to member expression targets', () => {
+    assertResult(compare('const o = {}; const k = "key"; [o.a, o[k]] = [1, 2]; ({ x: o.b } = { x: 3 }); o;'));
+  });
+  it('should support rest elements', () => {
+    assertResult(compare('let a, rest; [a, ...rest] = [1, 2, 3]; [a, rest];'));
+    assertResult(compare('let a, rest; ({ a, ...rest } = { a: 1, b: 2, c: 3 }); [a, rest];'));
+    assertResult(compare('const o = {}; [, ...o.rest] = [1, 2, 3]; o.rest;'));
+  });
+  it('should evaluate to the right-hand side', () => {
+    assertResult(compare('let a; const arr = [1]; ([a] = arr) === arr;'));
+  });
+  it('should not assign to constants', () => {
+    assertResult(compare('const a = 1; try { [a] = [2]; } catch (e) { e.message; }'));
+  });
+  it('should throw when destructuring null or undefined', () => {
+    assertResult(compare('let a; try { ({ a } = null); } catch (e) { e.message; }'));
+  });
+  it('should destructure in for...of and for...in heads', () => {
+    assertResult(
+      compare(
+        'const o = { x: 1, y: 2 }; const out = []; let k, v; for ([k, v] of Object.entries(o)) out.push(k + v); out;',
+        { Object },
+      ),
+    );
+    assertResult(
+      compare(
+        'const out = []; for (const { a, b: [c] } of [{ a: 1, b: [2] }, { a: 3, b: [4] }]) out.push(a + c); out;',
+      ),
+    );
+    assertResult(compare('const out = []; let k; for (k of ["a", "b"]) out.push(k); [out, k];'));
+    assertResult(compare('const out = {}; for (out.last in { a: 1, b: 2 }); out;'));
+  });
+});
@@ -0,0 +1,37 @@
+import chai from 'chai';
+import { assertResult, compare } from '../util';
+import { interpret } from '../../src';
+
+describe('With statements', () => {
+  it('should look up names on the object first', () => {
+    assertResult(compare(`var a = 1, b = 2; var o = { a: 3 }; with (o) { a + b; }`));
+    assertResult(compare(`function f(o) { var a = 1; with (o) return a; } [f({ a: 2 }), f({})];`));
+    assertResult(compare(`var o = { a: 1 }; with (o) { var f = function() { return a; }; } o.a = 2; f();`));
+    assertResult(compare(`with ('abc') length;`));
+  });
+  it('should assign to the properties of the object', () => {
+    assertResult(compare(`var o = { a: 1 }, b = 1; with (o) { a = 2; a++; a += 1; b = 2; } [o.a, b];`));
+    assertResult(compare(`var o = { a: 1 }; with (o) { var a = 2, c = 3; } [o.a, a, c, o.c];`));
+  });
+  it('should call functions of the object on it', () => {
+    assertResult(compare(`var o = { a: 1, f() { return this.a; } }; with (o) f();`));
+  });
+  it('should skip Symbol.unscopables', () => {
+    assertResult(
+      compare(`var keys = 'outer'; var o = { keys: 1, [Symbol.unscopables]: { keys: true } }; with (o) keys;`, {
+        Symbol,
+      }),
+    );
+    assertResult(compare(`var values = 1; with ([]) values;`));
+  });
+  it('should nest and shadow correctly', () => {
+    assertResult(compare(`with ({ a: 1, b: 1 }) with ({ a: 2 }) { let b = 3; [a, b]; }`));
+    assertResult(compare(`with ({ a: 1 }) (function() { var a = 2; return a; })();`));
+  });
+  it('should resolve code of a direct eval', () => {
+    chai.expect(interpret(`with ({ a: 1 }) eval('a');`, { eval })).to.equal(1);
+  });
+  it('should throw for null and undefined', () => {
+    assertResult(compare(`try { with (null) {} } catch (e) { e instanceof TypeError; }`, { TypeError }));
+  });
+});
@@ -0,0 +1,59 @@
+import chai from 'chai';
+import { parseScript } from 'shift-parser';
+import { Interpreter } from '../src';
+import { Repl } from '../src/repl';
+
+function createRepl(src: string) {
+  const script = parseScript(src);
+  const interpreter = new Interpreter();
+  interpreter.load(script);
+  return new Repl(interpreter, script);
+}
+
+describe('Repl', () => {
+  it('should evaluate input against the loaded script', () => {
+    const repl = createRepl('const a = 2; function double(x) { return x * 2; }');
+    repl.evaluate('.run');
+    chai.expect(repl.evaluate('double(a) + 1')).to.equal('5');
+    chai.expect(repl.evaluate('let b = a * 10;')).to.equal('undefined');
+    chai.expect(repl.evaluate('b + a')).to.equal('22');
+    chai.expect(repl.evaluate('function triple(x) { return x * 3; }')).to.equal('undefined');
+    chai.expect(repl.evaluate('triple(b)')).to.equal('60');
+  });
+  it('should share state with the loaded script', () => {
+    const repl = createRepl('let count = 0; function increment() { return ++count; }');
+    repl.evaluate('.run');
+    repl.evaluate('increment(); increment();');
+    chai.expect(repl.evaluate('count = count * 10')).to.equal('20');
+    chai.expect(repl.evaluate('increment()')).to.equal('21');
+  });
+  it('should run statements by index', () => {
+    const repl = createRepl('const strings = ["a", "b"];\nfunction get(i) { return strings[i]; }\nget(1);');
+    chai.expect(repl.evaluate('.list')).to.match(/^0: .*\n1: .*\n2: /);
+    chai.expect(repl.evaluate('.run 0')).to.equal('undefined');
+    chai.expect(repl.evaluate('.run 1')).to.equal('undefined');
+    chai.expect(repl.evaluate('.run 2')).to.equal("'b'");
+    chai.expect(repl.evaluate('.run 3')).to.equal('Uncaught RangeError: No statement at index 3');
+  });
+  it('should inspect variables', () => {
+    const repl = createRepl('const a = { b: [1] }; let c;');
+    repl.evaluate('.run 0');
+    chai.expect(repl.evaluate('.vars a')).to.equal('{ b: [ 1 ] }');
+    chai.expect(repl.evaluate('.vars')).to.equal('a: { b: [ 1 ] }\nc: <uninitialized>');
+    chai.expect(repl.evaluate('.vars d')).to.equal('Uncaught ReferenceError: d is not defined');
+  });
+  it('should print nodes', () => {
+    const repl = createRepl('const a = 1;\na + 1;');
+    chai.expect(repl.evaluate('.print 1')).to.contain('a + 1');
+    repl.evaluate('.run');
+    chai.expect(repl.evaluate('.print')).to.equal('1');
+  });
+  it('should report errors without losing state', () => {
+    const repl = createRepl('const a = 1;');
+    repl.evaluate('.run');
+    chai.expect(repl.evaluate('missing()')).to.equal('Uncaught ReferenceError: missing is not defined');
+    chai.expect(repl.evaluate('a = 2')).to.equal('Uncaught TypeError: Assignment to constant variable.');
+    chai.expect(repl.evaluate('a')).to.equal('1');
+    chai.expect(repl.evaluate('.nope')).to.equal('Unknown command .nope, see .help');
+  });
+});
@@ -50,6 +50,36 @@ export function assertError(src: string, error: string) {
   expect(actual).to.equal(expected);
 }
 
+function compareOutcomes(
+  interpreterActualValue: any,
+  interpreterActualError: any,
+  nativeExpectedValue: any,
+  nativeExpectedError: any,
+) {
+  let success = false;
+  if (Number.isNaN(nativeExpectedValue)) {
+    success = Number.isNaN(interpreterActualValue);
+    debug(`Interpreter produced NaN, Native produced ${interpreterActualValue}`);
+  } else if (nativeExpectedError) {
+    if (!interpreterActualError) {
+      debug(`Failure: Native produced error, Interpreter did not`);
+      success = false;
+    } else {
+      success = interpreterActualError.message === nativeExpectedError.message;
+      debug(`Both produced errors (same===${success})`);
+    }
+  } else {
+    if (interpreterActualError) {
+      debug(`Failure: Interpreter produced error, Native did not`);
+      console.log(interpreterActualError);
+      success = false;
+    } else {
+      success = deepEqual(nativeExpectedValue, interpreterActualValue);
+    }
+  }
+  return success;
+}
+
 function funcify(fn: Function) {
   const src = fn.toString();
   return `(${src})()`;
@@ -78,27 +108,14 @@ export function compare(src: string | Function, context?: BasicContext): Result
   else debug(`!! Interpreter error: <none>`);
   if (nativeExpectedError) debug(`!! Native error     : ${nativeExpectedError.message}`);
   else debug(`!! Native error     : <none>`);
-  let success = false;
-  if (Number.isNaN(nativeExpectedValue)) {
-    success = Number.isNaN(interpreterActualValue);
-    debug(`Interpreter produced NaN, Native produced ${interpreterActualValue}`);
-  } else if (nativeExpectedError) {
-    if (!interpreterActualError) {
-      debug(`Failure: Native produced error, Interpreter did not`);
-      interpreterActualError = { message: '<<Did not throw an error>>' };
-      success = false;
-    } else {
-      success = interpreterActualError.message === nativeExpectedError.message;
-      debug(`Both produced errors (same===${success})`);
-    }
-  } else {
-    if (interpreterActualError) {
-      debug(`Failure: Interpreter produced error, Native did not`);
-      console.log(interpreterActualError);
-      success = false;
-    } else {
-      success = deepEqual(nativeExpectedValue, interpreterActualValue);
-    }
+  const success = compareOutcomes(
+    interpreterActualValue,
+    interpreterActualError,
+    nativeExpectedValue,
+    nativeExpectedError,
+  );
+  if (nativeExpectedError && !interpreterActualError) {
+    interpreterActualError = { message: '<<Did not throw an error>>' };
   }
 
   return {
@@ -111,3 +128,27 @@ export function compare(src: string | Function, context?: BasicContext): Result
     interpreter,
   };
 }
+
+// Like compare() for sources that evaluate to a promise, compares what the promises settle to.
+export async function compareAsync(src: string, context?: BasicContext): Promise<Result> {
+  const result = compare(src, context);
+  const settle = (value: any) =>
+    Promise.resolve(value).then(
+      value => ({ value, error: undefined }),
+      error => ({ value: undefined, error }),
+    );
+  const [actual, expected] = await Promise.all([
+    result.actualError ? { value: undefined, error: result.actualError } : settle(result.actual),
+    result.expectedError ? { value: undefined, error: result.expectedError } : settle(result.expected),
+  ]);
+  const success = compareOutcomes(actual.value, actual.error, expected.value, expected.error);
+  if (expected.error && !actual.error) actual.error = { message: '<<Did not throw an error>>' };
+  return {
+    ...result,
+    actual: actual.value,
+    actualError: actual.error,
+    expected: expected.value,
+    expectedError: expected.error,
+    success,
+  };
+}
@@ -1,7 +1,20 @@
-
 declare module 'shift-parser' {
-  import { Script, Module } from 'shift-ast';
+  import { Script, Module, Node } from 'shift-ast';
+  export interface SourceLocation {
+    line: number;
+    column: number;
+    offset: number;
+  }
+  export interface SourceSpan {
+    start: SourceLocation;
+    end: SourceLocation;
+  }
   export function parseScript(src: string): Script;
   export function parseModule(src: string): Module;
+  export function parseScriptWithLocation(
+    src: string,
+  ): { tree: Script; locations: WeakMap<Node, SourceSpan>; comments: any[] };
+  export function parseModuleWithLocation(
+    src: string,
+  ): { tree: Module; locations: WeakMap<Node, SourceSpan>; comments: any[] };
 }
-